@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadTickers, MAX_TICKERS } from '@/lib/providers';
+import {
+  AnalysisOptionsError,
+  AnalyzeResponse,
+  analyzeTicker,
+  parseAnalysisOptions,
+} from '@/lib/analysis';
+
+// GET  /api/analyze?tickers=WIG20,SPX&from=2015-01-01&to=2024-12-31&riskFreeRate=0.03
+// POST /api/analyze {"tickers": ["WIG20", "SPX"], "from": "2015-01-01", "rollingYears": 5}
+//
+// Options: from, to, interval, periodsPerYear, minAcceptableReturn, riskFreeRate, commission, rollingYears,
+// benchmark (ticker, loaded as well when not among tickers) and benchmarkFrequency (daily or monthly).
+// A benchmark that fails to load is reported in benchmarkError; the other tickers are still analyzed.
+// Returns the same statistics, returns table, rolling returns, drawdowns and
+// trend-following results the dashboard shows for each ticker.
+
+async function analyze(input: Record<string, unknown>): Promise<NextResponse<AnalyzeResponse>> {
+  const tickers = (Array.isArray(input.tickers) ? input.tickers.map(String) : String(input.tickers ?? '').split(','))
+    .map((t) => t.trim())
+    .filter((t) => t.length > 0);
+
+  if (tickers.length === 0) {
+    return NextResponse.json<AnalyzeResponse>(
+      { success: false, error: 'Missing tickers parameter' },
+      { status: 400 }
+    );
+  }
+
+  let options;
+  try {
+    options = parseAnalysisOptions(input);
+  } catch (error) {
+    if (error instanceof AnalysisOptionsError) {
+      return NextResponse.json<AnalyzeResponse>({ success: false, error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  const benchmark = options.benchmark;
+  if (benchmark && !tickers.some((t) => t.toUpperCase() === benchmark)) {
+    tickers.push(benchmark);
+  }
+
+  if (tickers.length > MAX_TICKERS) {
+    return NextResponse.json<AnalyzeResponse>(
+      { success: false, error: `Maximum ${MAX_TICKERS} tickers allowed` },
+      { status: 400 }
+    );
+  }
+
+  const { data, results, errorStatus } = await loadTickers(tickers, options.interval);
+
+  if (data.length === 0) {
+    const firstError = results.find(r => r.status === 'error');
+    return NextResponse.json<AnalyzeResponse>(
+      { success: false, error: firstError?.error || 'Failed to fetch data', results },
+      { status: errorStatus ?? 500 }
+    );
+  }
+
+  const benchmarkData = benchmark ? data.find((td) => td.ticker === benchmark) : undefined;
+  const benchmarkFailure = benchmark && !benchmarkData
+    ? results.find((r) => r.ticker === benchmark && r.status === 'error')
+    : undefined;
+
+  return NextResponse.json<AnalyzeResponse>({
+    success: true,
+    options,
+    data: data.map((tickerData) => analyzeTicker(tickerData, options, benchmarkData)),
+    results,
+    ...(benchmark && !benchmarkData && {
+      benchmarkError: `Benchmark ${benchmark} could not be loaded: ${benchmarkFailure?.error || 'no data'}`,
+    }),
+  });
+}
+
+export async function GET(request: NextRequest) {
+  return analyze(Object.fromEntries(request.nextUrl.searchParams.entries()));
+}
+
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json<AnalyzeResponse>(
+      { success: false, error: 'Request body must be JSON' },
+      { status: 400 }
+    );
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return NextResponse.json<AnalyzeResponse>(
+      { success: false, error: 'Request body must be a JSON object' },
+      { status: 400 }
+    );
+  }
+  return analyze(body as Record<string, unknown>);
+}
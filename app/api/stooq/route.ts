@@ -1,12 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchStooqData, parseStooqCSV } from '@/lib/stooq';
-import { ApiResponse, TickerData } from '@/lib/types';
-
-const STOOQ_BASE_URL = 'https://stooq.pl/q/d/l/';
+import { loadTickers, MAX_TICKERS } from '@/lib/providers';
+import { ApiResponse, StooqInterval, STOOQ_INTERVALS } from '@/lib/types';
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const tickersParam = searchParams.get('tickers');
+  const intervalParam = searchParams.get('interval') || 'd';
 
   if (!tickersParam) {
     return NextResponse.json<ApiResponse>(
@@ -24,68 +23,37 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  if (tickers.length > 10) {
+  if (tickers.length > MAX_TICKERS) {
     return NextResponse.json<ApiResponse>(
-      { success: false, error: 'Maximum 10 tickers allowed' },
+      { success: false, error: `Maximum ${MAX_TICKERS} tickers allowed` },
       { status: 400 }
     );
   }
 
-  try {
-    const results: TickerData[] = [];
-
-    for (const ticker of tickers) {
-      const url = `${STOOQ_BASE_URL}?s=${encodeURIComponent(ticker.toLowerCase())}&d1=19000101&d2=20301231&i=d`;
-
-      const response = await fetch(url, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-        },
-      });
-
-      if (!response.ok) {
-        return NextResponse.json<ApiResponse>(
-          { success: false, error: `Failed to fetch data for ${ticker}: ${response.statusText}` },
-          { status: 502 }
-        );
-      }
-
-      const csvText = await response.text();
-
-      if (!csvText || csvText.trim().length === 0 || csvText.includes('Brak danych')) {
-        return NextResponse.json<ApiResponse>(
-          { success: false, error: `No data available for ticker: ${ticker}` },
-          { status: 404 }
-        );
-      }
-
-      const data = parseStooqCSV(csvText, ticker);
-
-      if (data.length === 0) {
-        return NextResponse.json<ApiResponse>(
-          { success: false, error: `Invalid ticker or no data: ${ticker}` },
-          { status: 404 }
-        );
-      }
+  if (!STOOQ_INTERVALS.includes(intervalParam as StooqInterval)) {
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: `Invalid interval: ${intervalParam} (expected one of ${STOOQ_INTERVALS.join(', ')})` },
+      { status: 400 }
+    );
+  }
+  const interval = intervalParam as StooqInterval;
 
-      results.push({
-        ticker: ticker.toUpperCase(),
-        data,
-      });
-    }
+  // A prefix such as "file:MYFUND" selects the data provider, and expressions
+  // such as "CSPX.UK/IWDA.UK" are computed from their component tickers.
+  const { data, results, cache: cacheInfo, errorStatus } = await loadTickers(tickers, interval);
 
-    return NextResponse.json<ApiResponse>({
-      success: true,
-      data: results,
-    });
-  } catch (error) {
-    console.error('Error fetching stooq data:', error);
+  if (data.length === 0) {
+    const firstError = results.find(r => r.status === 'error');
     return NextResponse.json<ApiResponse>(
-      {
-        success: false,
-        error: error instanceof Error ? error.message : 'An unexpected error occurred',
-      },
-      { status: 500 }
+      { success: false, error: firstError?.error || 'Failed to fetch data', results },
+      { status: errorStatus ?? 500 }
     );
   }
+
+  return NextResponse.json<ApiResponse>({
+    success: true,
+    data,
+    results,
+    cache: cacheInfo,
+  });
 }
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkTicker, MAX_TICKERS } from '@/lib/providers';
+import { SymbolCheckResponse } from '@/lib/types';
+
+export async function GET(request: NextRequest) {
+  const tickersParam = request.nextUrl.searchParams.get('tickers');
+
+  if (!tickersParam) {
+    return NextResponse.json<SymbolCheckResponse>(
+      { success: false, error: 'Missing tickers parameter' },
+      { status: 400 }
+    );
+  }
+
+  const tickers = tickersParam.split(',').map(t => t.trim()).filter(t => t.length > 0);
+
+  if (tickers.length > MAX_TICKERS) {
+    return NextResponse.json<SymbolCheckResponse>(
+      { success: false, error: `Maximum ${MAX_TICKERS} tickers allowed` },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json<SymbolCheckResponse>({
+    success: true,
+    data: tickers.map(checkTicker),
+  });
+}
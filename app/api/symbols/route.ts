@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchSymbols } from '@/lib/symbols';
+import { SymbolSearchResponse } from '@/lib/types';
+
+const MAX_LIMIT = 50;
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const query = searchParams.get('q');
+  const limitParam = searchParams.get('limit');
+
+  if (query === null) {
+    return NextResponse.json<SymbolSearchResponse>(
+      { success: false, error: 'Missing q parameter' },
+      { status: 400 }
+    );
+  }
+
+  const limit = limitParam ? Number(limitParam) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT)) {
+    return NextResponse.json<SymbolSearchResponse>(
+      { success: false, error: `Invalid limit: ${limitParam} (expected 1-${MAX_LIMIT})` },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json<SymbolSearchResponse>({
+    success: true,
+    data: searchSymbols(query, limit),
+  });
+}
@@ -1,7 +1,11 @@
 'use client';
 
-import { useState, useMemo, useCallback } from 'react';
+import { useState, useMemo, useCallback, useEffect, useRef } from 'react';
 import TickerInput from '@/components/TickerInput';
+import DataUpload from '@/components/DataUpload';
+import DataQualityPanel from '@/components/DataQualityPanel';
+import CurrencyComparison from '@/components/CurrencyComparison';
+import InflationControl from '@/components/InflationControl';
 import PriceChart from '@/components/PriceChart';
 import StatsPanel from '@/components/StatsPanel';
 import DateRangeFilter from '@/components/DateRangeFilter';
@@ -9,19 +13,158 @@ import TrendFollowingSection from '@/components/TrendFollowingSection';
 import RollingReturnsChart from '@/components/RollingReturnsChart';
 import AnnualReturnsChart from '@/components/AnnualReturnsChart';
 import ReturnsTable from '@/components/ReturnsTable';
-import { TickerData, ChartDataPoint, Statistics, ApiResponse } from '@/lib/types';
+import WorkspaceMenu from '@/components/WorkspaceMenu';
+import CorrelationSection from '@/components/CorrelationSection';
+import ValueAtRiskChart from '@/components/ValueAtRiskChart';
+import ReturnDistributionSection from '@/components/ReturnDistributionSection';
+import {
+  TickerData,
+  StooqDataPoint,
+  ChartDataPoint,
+  Statistics,
+  ApiResponse,
+  TickerResult,
+  TickerErrorCode,
+  StooqInterval,
+  DataQualityReport,
+  DataQualityMode,
+  CpiSeriesKind,
+  Deflator,
+  PriceChartSettings,
+  DateRangePreset,
+  BenchmarkReturnFrequency,
+  BenchmarkStatistics,
+  ValueAtRiskReport,
+} from '@/lib/types';
 import {
   calculateStatistics,
+  calculateBenchmarkStatistics,
   normalizeDataForChart,
   filterDataByDateRange,
   getDateRange,
   calculateReturnsTable,
+  resampleData,
+  detectPeriodsPerYear,
+  resolveDateRangePreset,
   YearlyData,
 } from '@/lib/statistics';
+import { analyzeDataQuality, applyDataQualityFixes } from '@/lib/quality';
+import { calculateValueAtRisk } from '@/lib/risk';
+import { describeTickerSources } from '@/lib/symbols';
+import {
+  BASE_CURRENCIES,
+  convertTickersData,
+  fxPairTicker,
+  getQuoteCurrency,
+  invertFxSeries,
+} from '@/lib/currency';
+import { deflateTickersData, getDeflatorBaseMonth, toCpiIndex } from '@/lib/inflation';
+import { decodeViewState, encodeViewState, DEFAULT_VIEW_STATE, ViewState } from '@/lib/urlState';
+import { loadWorkspaces, mergeWorkspaces, saveWorkspaces, Workspace } from '@/lib/workspaces';
+import { ExportMetadata } from '@/lib/export';
+
+// What went wrong and what the user can do about it, per API error code
+const TICKER_ISSUE_MESSAGES: Record<TickerErrorCode, { reason: string; action: string }> = {
+  NOT_FOUND: { reason: 'No data for this symbol', action: 'check the ticker spelling' },
+  QUOTA_EXCEEDED: { reason: 'Daily Stooq limit reached', action: 'try again tomorrow' },
+  HTML_RESPONSE: {
+    reason: 'Stooq returned a web page instead of data (possibly a captcha)',
+    action: 'open stooq.pl in your browser, then retry',
+  },
+  EMPTY_RESPONSE: { reason: 'Stooq returned an empty response', action: 'retry in a moment' },
+  UNEXPECTED_FORMAT: { reason: 'Stooq returned data in an unexpected format', action: 'retry later' },
+  PARSE_ERROR: { reason: 'The downloaded data could not be read', action: 'retry later' },
+  UPSTREAM_ERROR: { reason: 'Stooq could not be reached', action: 'retry in a moment' },
+  INVALID_SYMBOL: { reason: 'Invalid symbol or data source', action: 'check the ticker and its prefix' },
+};
+
+function describeTickerIssue(result: TickerResult): string {
+  const message = result.errorCode ? TICKER_ISSUE_MESSAGES[result.errorCode] : null;
+  if (!message) return result.error || 'Unknown error';
+
+  if (result.status === 'stale') {
+    const cachedDate = result.fetchedAt ? ` from ${result.fetchedAt.slice(0, 10)}` : '';
+    return `${message.reason}, cached data${cachedDate} shown`;
+  }
+  return `${message.reason} - ${message.action}`;
+}
+
+const INTERVAL_OPTIONS: { value: StooqInterval; label: string }[] = [
+  { value: 'd', label: 'Daily' },
+  { value: 'w', label: 'Weekly' },
+  { value: 'm', label: 'Monthly' },
+  { value: 'q', label: 'Quarterly' },
+  { value: 'y', label: 'Yearly' },
+];
+
+// Annualization override: null = detect from the dates of each series
+const PERIODS_PER_YEAR_OPTIONS: { value: number | null; label: string }[] = [
+  { value: null, label: 'Auto' },
+  { value: 252, label: '252 (trading days)' },
+  { value: 365, label: '365 (calendar days)' },
+  { value: 52, label: '52 (weekly)' },
+  { value: 12, label: '12 (monthly)' },
+  { value: 4, label: '4 (quarterly)' },
+  { value: 1, label: '1 (yearly)' },
+];
+
+// Minimum acceptable return for Sortino, Martin and Omega
+const MIN_ACCEPTABLE_RETURN_OPTIONS = [0, 0.02, 0.04, 0.05, 0.06, 0.08, 0.1].map((value) => ({
+  value,
+  label: `${(value * 100).toFixed(0)}%`,
+}));
+
+/**
+ * Download FX series for the given pairs (e.g. USDPLN). Pairs Stooq does not
+ * quote directly are derived by inverting the reverse pair.
+ * Returns the series by pair and the pairs that could not be loaded.
+ */
+async function fetchFxSeries(
+  pairs: { from: string; to: string }[]
+): Promise<{ series: Record<string, StooqDataPoint[]>; failed: string[] }> {
+  const series: Record<string, StooqDataPoint[]> = {};
+
+  const load = async (tickers: string[]) => {
+    const response = await fetch(`/api/stooq?tickers=${encodeURIComponent(tickers.join(','))}`);
+    const result: ApiResponse = await response.json();
+    return new Map((result.data || []).map((td) => [td.ticker, td.data]));
+  };
+
+  const direct = await load(pairs.map(({ from, to }) => fxPairTicker(from, to)));
+  const missing = pairs.filter(({ from, to }) => !direct.has(fxPairTicker(from, to)));
+  const inverse = missing.length > 0
+    ? await load(missing.map(({ from, to }) => fxPairTicker(to, from)))
+    : new Map<string, StooqDataPoint[]>();
+
+  const failed: string[] = [];
+  for (const { from, to } of pairs) {
+    const pair = fxPairTicker(from, to);
+    const directData = direct.get(pair);
+    const inverseData = inverse.get(fxPairTicker(to, from));
+
+    if (directData) series[pair] = directData;
+    else if (inverseData) series[pair] = invertFxSeries(inverseData);
+    else failed.push(pair);
+  }
+
+  return { series, failed };
+}
+
+// Uploaded series are listed after the fetched ones; a fetched ticker wins on a name clash
+function combineTickersData(fetched: TickerData[], uploaded: TickerData[]): TickerData[] {
+  const fetchedTickers = new Set(fetched.map((td) => td.ticker));
+  return [...fetched, ...uploaded.filter((td) => !fetchedTickers.has(td.ticker))];
+}
 
 export default function Home() {
-  // Raw data from API (never filtered)
-  const [rawTickersData, setRawTickersData] = useState<TickerData[]>([]);
+  // Raw data from API and from uploaded files (never filtered)
+  const [fetchedTickersData, setFetchedTickersData] = useState<TickerData[]>([]);
+  const [uploadedTickersData, setUploadedTickersData] = useState<TickerData[]>([]);
+
+  const rawTickersData = useMemo(
+    () => combineTickersData(fetchedTickersData, uploadedTickersData),
+    [fetchedTickersData, uploadedTickersData]
+  );
 
   // Date range state
   const [dateRange, setDateRange] = useState<{ start: string; end: string }>({
@@ -37,19 +180,155 @@ export default function Home() {
 
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Tickers that failed or were served from a stale cache
+  const [tickerErrors, setTickerErrors] = useState<TickerResult[]>([]);
   const [focusedTickerIndex, setFocusedTickerIndex] = useState(0);
+  // Tickers of the last successful request, shared in the view URL
+  const [submittedTickers, setSubmittedTickers] = useState<string[]>([]);
+  const [linkCopied, setLinkCopied] = useState(false);
+  // Quick range the current date range came from; kept relative in saved views
+  const [datePreset, setDatePreset] = useState<DateRangePreset | null>(null);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeWorkspace, setActiveWorkspace] = useState('');
+
+  // Chart settings, lifted here so they can be shared in the view URL
+  const [priceChartSettings, setPriceChartSettings] = useState<PriceChartSettings>(DEFAULT_VIEW_STATE.priceChart);
+  const [rollingYears, setRollingYears] = useState(DEFAULT_VIEW_STATE.rollingYears);
+  const [riskFreeRate, setRiskFreeRate] = useState(DEFAULT_VIEW_STATE.riskFreeRate);
+  const [commission, setCommission] = useState(DEFAULT_VIEW_STATE.commission);
+
+  // Bar interval - daily data is resampled locally, so switching needs no new download
+  const [barInterval, setBarInterval] = useState<StooqInterval>('d');
+  const [periodsPerYearOverride, setPeriodsPerYearOverride] = useState<number | null>(null);
+  const [minAcceptableReturn, setMinAcceptableReturn] = useState(DEFAULT_VIEW_STATE.minAcceptableReturn);
+  const [benchmark, setBenchmark] = useState(DEFAULT_VIEW_STATE.benchmark);
+  const [benchmarkFrequency, setBenchmarkFrequency] = useState<BenchmarkReturnFrequency>(
+    DEFAULT_VIEW_STATE.benchmarkFrequency
+  );
+
+  // Data quality findings on the raw series, optionally applied before analysis
+  const [dataQualityMode, setDataQualityMode] = useState<DataQualityMode>('flag');
+
+  const dataQualityReports = useMemo<DataQualityReport[]>(
+    () => rawTickersData.map(analyzeDataQuality),
+    [rawTickersData]
+  );
+
+  const cleanedTickersData = useMemo<TickerData[]>(() => {
+    if (dataQualityMode === 'flag') return rawTickersData;
+
+    return rawTickersData.map((tickerData, i) => ({
+      ticker: tickerData.ticker,
+      data: applyDataQualityFixes(tickerData.data, dataQualityReports[i], dataQualityMode),
+    }));
+  }, [rawTickersData, dataQualityReports, dataQualityMode]);
+
+  // Base currency conversion: '' keeps each series in its quote currency
+  const [baseCurrency, setBaseCurrency] = useState('');
+  const [fxSeries, setFxSeries] = useState<Record<string, StooqDataPoint[]>>({});
+  const [fxFailures, setFxFailures] = useState<string[]>([]);
+  const [isFxLoading, setIsFxLoading] = useState(false);
+
+  // Quote currency per series, aligned with rawTickersData (uploads follow fetched tickers)
+  const quoteCurrencies = useMemo(
+    () => rawTickersData.map((td, i) => getQuoteCurrency(td, i >= fetchedTickersData.length)),
+    [rawTickersData, fetchedTickersData]
+  );
+
+  // FX pairs needed to convert every series with a known currency
+  const missingFxPairs = useMemo(() => {
+    if (!baseCurrency) return [];
+    const currencies = new Set(quoteCurrencies.filter((c): c is string => !!c && c !== baseCurrency));
+    return Array.from(currencies)
+      .map((from) => ({ from, to: baseCurrency }))
+      .filter(({ from, to }) => {
+        const pair = fxPairTicker(from, to);
+        return !fxSeries[pair] && !fxFailures.includes(pair);
+      });
+  }, [baseCurrency, quoteCurrencies, fxSeries, fxFailures]);
+
+  useEffect(() => {
+    if (missingFxPairs.length === 0) return;
+
+    let cancelled = false;
+    setIsFxLoading(true);
+    fetchFxSeries(missingFxPairs)
+      .then(({ series, failed }) => {
+        if (cancelled) return;
+        setFxSeries((prev) => ({ ...prev, ...series }));
+        setFxFailures((prev) => [...prev, ...failed]);
+      })
+      .catch((err) => {
+        console.error('FX error:', err);
+        if (!cancelled) {
+          setFxFailures((prev) => [...prev, ...missingFxPairs.map(({ from, to }) => fxPairTicker(from, to))]);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsFxLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [missingFxPairs]);
+
+  const unconvertedTickers = useMemo(() => {
+    if (!baseCurrency) return [];
+
+    return rawTickersData.flatMap((td, i) => {
+      const currency = quoteCurrencies[i];
+      if (currency === null) return [`${td.ticker} (unknown currency)`];
+      const pair = fxPairTicker(currency, baseCurrency);
+      return currency !== baseCurrency && fxFailures.includes(pair) ? [`${td.ticker} (no ${pair} rate)`] : [];
+    });
+  }, [rawTickersData, quoteCurrencies, baseCurrency, fxFailures]);
+
+  const convertedTickersData = useMemo<TickerData[]>(() => {
+    if (!baseCurrency) return cleanedTickersData;
+
+    const seriesByCurrency: Record<string, StooqDataPoint[]> = {};
+    for (const currency of quoteCurrencies) {
+      const pair = currency ? fxSeries[fxPairTicker(currency, baseCurrency)] : undefined;
+      if (currency && pair) seriesByCurrency[currency] = pair;
+    }
+    return convertTickersData(cleanedTickersData, quoteCurrencies, baseCurrency, seriesByCurrency);
+  }, [cleanedTickersData, quoteCurrencies, baseCurrency, fxSeries]);
+
+  // Real terms: every series is deflated by a monthly CPI series
+  const [realTerms, setRealTerms] = useState(false);
+  const [deflator, setDeflator] = useState<Deflator | null>(null);
+  const [isCpiLoading, setIsCpiLoading] = useState(false);
+  const [cpiError, setCpiError] = useState<string | null>(null);
+  // Ticker the deflator was loaded from; null for uploaded CPI files
+  const [cpiSource, setCpiSource] = useState<{ ticker: string; kind: CpiSeriesKind } | null>(null);
+  const activeDeflator = realTerms ? deflator : null;
+
+  const realTickersData = useMemo<TickerData[]>(
+    () => (activeDeflator ? deflateTickersData(convertedTickersData, activeDeflator) : convertedTickersData),
+    [convertedTickersData, activeDeflator]
+  );
+
+  const intervalTickersData = useMemo<TickerData[]>(() => {
+    if (barInterval === 'd') return realTickersData;
+
+    return realTickersData.map((tickerData) => ({
+      ticker: tickerData.ticker,
+      data: resampleData(tickerData.data, barInterval),
+    }));
+  }, [realTickersData, barInterval]);
 
   // Filter data based on selected date range
   const filteredTickersData = useMemo<TickerData[]>(() => {
-    if (rawTickersData.length === 0 || !dateRange.start || !dateRange.end) {
-      return rawTickersData;
+    if (intervalTickersData.length === 0 || !dateRange.start || !dateRange.end) {
+      return intervalTickersData;
     }
 
-    return rawTickersData.map((tickerData) => ({
+    return intervalTickersData.map((tickerData) => ({
       ticker: tickerData.ticker,
       data: filterDataByDateRange(tickerData.data, dateRange.start, dateRange.end),
     }));
-  }, [rawTickersData, dateRange]);
+  }, [intervalTickersData, dateRange]);
 
   // Calculate statistics from filtered data
   const statistics = useMemo<Statistics[]>(() => {
@@ -57,8 +336,61 @@ export default function Home() {
 
     return filteredTickersData
       .filter((td) => td.data.length >= 2)
-      .map((tickerData) => calculateStatistics(tickerData.ticker, tickerData.data));
-  }, [filteredTickersData]);
+      .map((tickerData) =>
+        calculateStatistics(tickerData.ticker, tickerData.data, periodsPerYearOverride ?? undefined, minAcceptableReturn)
+      );
+  }, [filteredTickersData, periodsPerYearOverride, minAcceptableReturn]);
+
+  // VaR and CVaR of every series, on the same filtered data
+  const valueAtRisk = useMemo<ValueAtRiskReport[]>(
+    () => filteredTickersData
+      .map((td) => calculateValueAtRisk(td.ticker, td.data, periodsPerYearOverride ?? undefined))
+      .filter((r): r is ValueAtRiskReport => r !== null),
+    [filteredTickersData, periodsPerYearOverride]
+  );
+
+  // Every other ticker measured against the benchmark, on the same filtered data
+  const activeBenchmark = filteredTickersData.some((td) => td.ticker === benchmark) ? benchmark : '';
+
+  const benchmarkStatistics = useMemo<BenchmarkStatistics[]>(() => {
+    const benchmarkData = filteredTickersData.find((td) => td.ticker === activeBenchmark)?.data;
+    if (!benchmarkData) return [];
+
+    return filteredTickersData
+      .filter((td) => td.ticker !== activeBenchmark)
+      .map((td) => calculateBenchmarkStatistics(
+        td.ticker,
+        td.data,
+        activeBenchmark,
+        benchmarkData,
+        benchmarkFrequency,
+        periodsPerYearOverride ?? undefined,
+        riskFreeRate
+      ))
+      .filter((s): s is BenchmarkStatistics => s !== null);
+  }, [filteredTickersData, activeBenchmark, benchmarkFrequency, periodsPerYearOverride, riskFreeRate]);
+
+  // Statistics in each series' own currency, for comparison with the converted ones
+  const localStatistics = useMemo<Statistics[]>(() => {
+    if (!baseCurrency) return [];
+
+    const localTickersData = activeDeflator
+      ? deflateTickersData(cleanedTickersData, activeDeflator)
+      : cleanedTickersData;
+
+    return localTickersData
+      .map((tickerData) => {
+        const resampled = barInterval === 'd' ? tickerData.data : resampleData(tickerData.data, barInterval);
+        const data = dateRange.start && dateRange.end
+          ? filterDataByDateRange(resampled, dateRange.start, dateRange.end)
+          : resampled;
+        return { ticker: tickerData.ticker, data };
+      })
+      .filter((td) => td.data.length >= 2)
+      .map((td) => calculateStatistics(td.ticker, td.data, periodsPerYearOverride ?? undefined, minAcceptableReturn));
+  }, [
+    cleanedTickersData, activeDeflator, baseCurrency, barInterval, dateRange, periodsPerYearOverride, minAcceptableReturn,
+  ]);
 
   // Calculate chart data from filtered data
   const chartData = useMemo<ChartDataPoint[]>(() => {
@@ -72,70 +404,324 @@ export default function Home() {
     const idx = Math.min(focusedTickerIndex, filteredTickersData.length - 1);
     const data = filteredTickersData[idx]?.data || [];
     if (data.length === 0) return [];
-    const result = calculateReturnsTable(data);
+    const result = calculateReturnsTable(data, periodsPerYearOverride ?? undefined);
     return result.years;
-  }, [filteredTickersData, focusedTickerIndex]);
+  }, [filteredTickersData, focusedTickerIndex, periodsPerYearOverride]);
 
-  const handleSubmit = async (tickers: string[]) => {
+  // Reset the date range to the full span of the loaded series, or to the
+  // preferred range (or quick range preset) clamped to that span
+  const resetDateRange = (
+    data: TickerData[],
+    preferred?: { start: string; end: string; preset: DateRangePreset | null }
+  ) => {
+    setDatePreset(preferred?.preset ?? null);
+    if (data.length === 0) {
+      setAvailableDateRange({ minDate: '', maxDate: '' });
+      setDateRange({ start: '', end: '' });
+      return;
+    }
+    const { minDate, maxDate } = getDateRange(data);
+    setAvailableDateRange({ minDate, maxDate });
+    if (preferred?.preset) {
+      setDateRange(resolveDateRangePreset(preferred.preset, minDate, maxDate));
+      return;
+    }
+    setDateRange({
+      start: preferred?.start && preferred.start > minDate ? preferred.start : minDate,
+      end: preferred?.end && preferred.end < maxDate ? preferred.end : maxDate,
+    });
+  };
+
+  // `view` restores the date range and focus asset from a shared URL or workspace
+  const handleSubmit = async (tickers: string[], view?: ViewState) => {
     setIsLoading(true);
     setError(null);
+    setTickerErrors([]);
+    setFxFailures([]);
 
     try {
       const response = await fetch(`/api/stooq?tickers=${encodeURIComponent(tickers.join(','))}`);
       const result: ApiResponse = await response.json();
 
       if (!result.success || !result.data) {
-        throw new Error(result.error || 'Failed to fetch data');
+        const failed = (result.results || []).filter((r) => r.status === 'error');
+        if (failed.length > 1) {
+          setTickerErrors(failed);
+        }
+        throw new Error(
+          failed.length === 1
+            ? `${failed[0].ticker}: ${describeTickerIssue(failed[0])}`
+            : result.error || 'Failed to fetch data'
+        );
       }
 
       const data = result.data;
-      setRawTickersData(data);
-      setFocusedTickerIndex(0);
-
-      // Calculate available date range
-      const { minDate, maxDate } = getDateRange(data);
-      setAvailableDateRange({ minDate, maxDate });
+      setTickerErrors((result.results || []).filter((r) => r.status !== 'ok'));
+      setFetchedTickersData(data);
+      setSubmittedTickers(tickers);
 
-      // Initialize date range to full range
-      setDateRange({ start: minDate, end: maxDate });
+      const combined = combineTickersData(data, uploadedTickersData);
+      const focusIdx = view ? combined.findIndex((td) => td.ticker === view.focusTicker.toUpperCase()) : -1;
+      setFocusedTickerIndex(Math.max(focusIdx, 0));
+      resetDateRange(combined, view && { start: view.startDate, end: view.endDate, preset: view.datePreset });
     } catch (err) {
       console.error('Error:', err);
       setError(err instanceof Error ? err.message : 'An unexpected error occurred');
-      setRawTickersData([]);
-      setAvailableDateRange({ minDate: '', maxDate: '' });
-      setDateRange({ start: '', end: '' });
+      setFetchedTickersData([]);
+      setSubmittedTickers([]);
+      resetDateRange(uploadedTickersData);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleDateRangeChange = useCallback((startDate: string, endDate: string) => {
+  const applyCpiSeries = (label: string, points: StooqDataPoint[], kind: CpiSeriesKind) => {
+    const index = toCpiIndex(points, kind);
+    if (index.length < 2) {
+      throw new Error(`${label} has fewer than 2 months of CPI data`);
+    }
+    setDeflator({ label, index });
+    setRealTerms(true);
+  };
+
+  const handleLoadCpiTicker = async (ticker: string, kind: CpiSeriesKind) => {
+    setIsCpiLoading(true);
+    setCpiError(null);
+
+    try {
+      const response = await fetch(`/api/stooq?tickers=${encodeURIComponent(ticker)}`);
+      const result: ApiResponse = await response.json();
+      const cpiData = result.data?.[0];
+
+      if (!result.success || !cpiData) {
+        throw new Error(result.error || `No CPI data for ${ticker}`);
+      }
+      applyCpiSeries(cpiData.ticker, cpiData.data, kind);
+      setCpiSource({ ticker, kind });
+    } catch (err) {
+      console.error('CPI error:', err);
+      setCpiError(err instanceof Error ? err.message : 'Failed to load CPI data');
+    } finally {
+      setIsCpiLoading(false);
+    }
+  };
+
+  const handleUploadCpi = (tickerData: TickerData, kind: CpiSeriesKind) => {
+    try {
+      setCpiError(null);
+      applyCpiSeries(`${tickerData.ticker} (uploaded)`, tickerData.data, kind);
+      setCpiSource(null);
+    } catch (err) {
+      setCpiError(err instanceof Error ? err.message : 'Failed to read CPI data');
+    }
+  };
+
+  const handleUpload = (tickerData: TickerData) => {
+    // Re-uploading a symbol replaces its previous series
+    const uploaded = [
+      ...uploadedTickersData.filter((td) => td.ticker !== tickerData.ticker),
+      tickerData,
+    ];
+    setUploadedTickersData(uploaded);
+    resetDateRange(combineTickersData(fetchedTickersData, uploaded));
+  };
+
+  const handleRemoveUpload = (ticker: string) => {
+    const uploaded = uploadedTickersData.filter((td) => td.ticker !== ticker);
+    setUploadedTickersData(uploaded);
+    setFocusedTickerIndex(0);
+    resetDateRange(combineTickersData(fetchedTickersData, uploaded));
+  };
+
+  const handleDateRangeChange = useCallback((startDate: string, endDate: string, preset?: DateRangePreset) => {
     setDateRange({ start: startDate, end: endDate });
+    setDatePreset(preset ?? null);
   }, []);
 
-  const tickers = filteredTickersData.map((td) => td.ticker);
+  const tickers = useMemo(() => filteredTickersData.map((td) => td.ticker), [filteredTickersData]);
   const hasData = rawTickersData.length > 0;
 
   // Focused asset for detail sections (used in both single and multi-ticker modes)
   const focusedIdx = Math.min(focusedTickerIndex, Math.max(tickers.length - 1, 0));
   const focusedTicker = tickers[focusedIdx] || '';
-  const focusedData = filteredTickersData[focusedIdx]?.data || [];
-  const rawFocusedData = rawTickersData[focusedIdx]?.data || [];
+  const focusedData = useMemo(() => filteredTickersData[focusedIdx]?.data || [], [filteredTickersData, focusedIdx]);
+  const rawFocusedData = intervalTickersData[focusedIdx]?.data || [];
+  // Observations per year of the focused series, e.g. 252 daily bars = 1 year
+  const focusedPeriodsPerYear = periodsPerYearOverride ?? detectPeriodsPerYear(focusedData);
+  const focusedValueAtRisk = valueAtRisk.find((r) => r.ticker === focusedTicker) ?? null;
+
+  // Data sources named in chart image footers
+  const uploadedTickers = useMemo(() => uploadedTickersData.map((td) => td.ticker), [uploadedTickersData]);
+  const dataSources = useMemo(() => describeTickerSources(tickers, uploadedTickers), [tickers, uploadedTickers]);
+  const focusedDataSources = useMemo(
+    () => describeTickerSources(focusedTicker ? [focusedTicker] : [], uploadedTickers),
+    [focusedTicker, uploadedTickers]
+  );
+
+  // Apply a shared or saved view and load its tickers. The ref always holds the
+  // latest closure, so applyView itself stays stable across renders.
+  const applyViewRef = useRef<(view: ViewState) => void>(() => {});
+  applyViewRef.current = (view: ViewState) => {
+    setBarInterval(view.interval);
+    setPeriodsPerYearOverride(view.periodsPerYear);
+    setMinAcceptableReturn(view.minAcceptableReturn);
+    setBenchmark(view.benchmark);
+    setBenchmarkFrequency(view.benchmarkFrequency);
+    setBaseCurrency(view.baseCurrency);
+    setDataQualityMode(view.dataQualityMode);
+    setPriceChartSettings(view.priceChart);
+    setRollingYears(view.rollingYears);
+    setRiskFreeRate(view.riskFreeRate);
+    setCommission(view.commission);
+    if (view.cpi) {
+      handleLoadCpiTicker(view.cpi.ticker, view.cpi.kind);
+    } else {
+      setRealTerms(false);
+    }
+    handleSubmit(view.tickers, view);
+  };
+  const applyView = useCallback((view: ViewState) => applyViewRef.current(view), []);
+
+  // Load saved workspaces and restore a shared view from the URL (once, on first render)
+  useEffect(() => {
+    setWorkspaces(loadWorkspaces());
+    const view = decodeViewState(window.location.search);
+    if (view) applyView(view);
+  }, [applyView]);
+
+  const currentView = useMemo<ViewState | null>(() => {
+    if (submittedTickers.length === 0) return null;
+
+    return {
+      tickers: submittedTickers,
+      startDate: dateRange.start,
+      endDate: dateRange.end,
+      datePreset,
+      focusTicker: focusedTicker,
+      interval: barInterval,
+      periodsPerYear: periodsPerYearOverride,
+      minAcceptableReturn,
+      benchmark: activeBenchmark,
+      benchmarkFrequency,
+      baseCurrency,
+      dataQualityMode,
+      cpi: realTerms && deflator ? cpiSource : null,
+      priceChart: priceChartSettings,
+      rollingYears,
+      riskFreeRate,
+      commission,
+    };
+  }, [
+    submittedTickers, dateRange, datePreset, focusedTicker, barInterval, periodsPerYearOverride, minAcceptableReturn,
+    activeBenchmark, benchmarkFrequency, baseCurrency, dataQualityMode, realTerms, deflator, cpiSource, priceChartSettings, rollingYears, riskFreeRate, commission,
+  ]);
+
+  // Tickers, range and settings attached to every export
+  const exportMetadata = useMemo<ExportMetadata>(() => ({
+    tickers: filteredTickersData.map((td) => td.ticker),
+    startDate: dateRange.start,
+    endDate: dateRange.end,
+    parameters: {
+      interval: barInterval,
+      periodsPerYear: periodsPerYearOverride ?? 'auto',
+      minAcceptableReturn,
+      benchmark: activeBenchmark || null,
+      benchmarkFrequency,
+      currency: baseCurrency || 'local',
+      dataQualityMode,
+      deflator: activeDeflator?.label ?? null,
+    },
+  }), [
+    filteredTickersData, dateRange, barInterval, periodsPerYearOverride, minAcceptableReturn, activeBenchmark,
+    benchmarkFrequency, baseCurrency, dataQualityMode, activeDeflator,
+  ]);
+
+  // Keep the URL in sync with the current view once tickers are loaded
+  const viewQuery = useMemo(() => (currentView ? encodeViewState(currentView) : null), [currentView]);
+
+  useEffect(() => {
+    if (viewQuery === null) return;
+    const url = `${window.location.pathname}?${viewQuery}`;
+    if (url !== `${window.location.pathname}${window.location.search}`) {
+      window.history.replaceState(null, '', url);
+    }
+  }, [viewQuery]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.error('Copy link error:', err);
+    }
+  };
+
+  const updateWorkspaces = (updated: Workspace[]) => {
+    setWorkspaces(updated);
+    saveWorkspaces(updated);
+  };
+
+  const handleSelectWorkspace = (workspace: Workspace) => {
+    setActiveWorkspace(workspace.name);
+    applyView(workspace.view);
+  };
+
+  const handleSaveWorkspace = (name: string) => {
+    if (!currentView) return;
+    updateWorkspaces(mergeWorkspaces(workspaces, [{ name, view: currentView, savedAt: new Date().toISOString() }]));
+    setActiveWorkspace(name);
+  };
+
+  const handleDeleteWorkspace = (name: string) => {
+    updateWorkspaces(workspaces.filter((w) => w.name !== name));
+    setActiveWorkspace('');
+  };
 
   return (
     <main className="min-h-screen bg-gray-100">
       {/* Header */}
       <header className="bg-white shadow-sm">
-        <div className="max-w-7xl mx-auto px-4 py-4">
-          <h1 className="text-2xl font-bold text-gray-900">Stooq Analyzer</h1>
-          <p className="text-sm text-gray-500">Stock and asset analytics with comprehensive statistics</p>
+        <div className="max-w-7xl mx-auto px-4 py-4 flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Stooq Analyzer</h1>
+            <p className="text-sm text-gray-500">Stock and asset analytics with comprehensive statistics</p>
+          </div>
+          <div className="flex items-start gap-2">
+            <WorkspaceMenu
+              workspaces={workspaces}
+              activeName={activeWorkspace}
+              canSave={currentView !== null}
+              onSelect={handleSelectWorkspace}
+              onSave={handleSaveWorkspace}
+              onDelete={handleDeleteWorkspace}
+              onImport={(imported) => updateWorkspaces(mergeWorkspaces(workspaces, imported))}
+            />
+            {viewQuery !== null && (
+              <button
+                onClick={handleCopyLink}
+                className="text-sm px-3 py-1 border border-gray-300 rounded hover:bg-gray-100 text-gray-700 transition-colors"
+                title="Copy a link to this view"
+              >
+                {linkCopied ? 'Copied!' : 'Copy link'}
+              </button>
+            )}
+          </div>
         </div>
       </header>
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 py-6">
         {/* Ticker Input */}
-        <TickerInput onSubmit={handleSubmit} isLoading={isLoading} />
+        <TickerInput onSubmit={handleSubmit} isLoading={isLoading} loadedTickers={submittedTickers} />
+
+        {/* Uploaded price series */}
+        <DataUpload
+          uploadedTickers={uploadedTickersData.map((td) => td.ticker)}
+          onUpload={handleUpload}
+          onRemove={handleRemoveUpload}
+          disabled={isLoading}
+        />
 
         {/* Date Range Filter - Only show when data is loaded */}
         {hasData && (
@@ -145,10 +731,129 @@ export default function Home() {
             startDate={dateRange.start}
             endDate={dateRange.end}
             onRangeChange={handleDateRangeChange}
+            activePreset={datePreset}
             disabled={isLoading}
           />
         )}
 
+        {/* Bar interval and annualization selectors - Only show when data is loaded */}
+        {hasData && (
+          <div className="mb-4 flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium text-gray-700">Interval:</label>
+              <select
+                value={barInterval}
+                onChange={(e) => setBarInterval(e.target.value as StooqInterval)}
+                disabled={isLoading}
+                className="text-sm border border-gray-300 rounded px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {INTERVAL_OPTIONS.map((opt) => (
+                  <option key={opt.value} value={opt.value}>{opt.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium text-gray-700">Currency:</label>
+              <select
+                value={baseCurrency}
+                onChange={(e) => setBaseCurrency(e.target.value)}
+                disabled={isLoading}
+                className="text-sm border border-gray-300 rounded px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Local</option>
+                {BASE_CURRENCIES.map((c) => (
+                  <option key={c} value={c}>{c}</option>
+                ))}
+              </select>
+              {isFxLoading && <span className="text-xs text-gray-500">Loading FX rates...</span>}
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium text-gray-700">Periods per year:</label>
+              <select
+                value={periodsPerYearOverride ?? ''}
+                onChange={(e) => setPeriodsPerYearOverride(e.target.value ? Number(e.target.value) : null)}
+                disabled={isLoading}
+                className="text-sm border border-gray-300 rounded px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {PERIODS_PER_YEAR_OPTIONS.map((opt) => (
+                  <option key={opt.label} value={opt.value ?? ''}>{opt.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium text-gray-700" title="Minimum acceptable return">MAR:</label>
+              <select
+                value={minAcceptableReturn}
+                onChange={(e) => setMinAcceptableReturn(parseFloat(e.target.value))}
+                disabled={isLoading}
+                className="text-sm border border-gray-300 rounded px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {MIN_ACCEPTABLE_RETURN_OPTIONS.map((opt) => (
+                  <option key={opt.value} value={opt.value}>{opt.label}</option>
+                ))}
+              </select>
+            </div>
+            {filteredTickersData.length > 1 && (
+              <div className="flex items-center gap-2">
+                <label className="text-sm font-medium text-gray-700">Benchmark:</label>
+                <select
+                  value={activeBenchmark}
+                  onChange={(e) => setBenchmark(e.target.value)}
+                  disabled={isLoading}
+                  className="text-sm border border-gray-300 rounded px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">None</option>
+                  {filteredTickersData.map((td) => (
+                    <option key={td.ticker} value={td.ticker}>{td.ticker}</option>
+                  ))}
+                </select>
+                {activeBenchmark && (
+                  <select
+                    value={benchmarkFrequency}
+                    onChange={(e) => setBenchmarkFrequency(e.target.value as BenchmarkReturnFrequency)}
+                    disabled={isLoading}
+                    aria-label="Benchmark return frequency"
+                    className="text-sm border border-gray-300 rounded px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="daily">Daily returns</option>
+                    <option value="monthly">Monthly returns</option>
+                  </select>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Real terms (CPI deflator) - Only show when data is loaded */}
+        {hasData && (
+          <InflationControl
+            enabled={realTerms}
+            onToggle={setRealTerms}
+            deflator={deflator}
+            onLoadTicker={handleLoadCpiTicker}
+            onUpload={handleUploadCpi}
+            isLoading={isCpiLoading}
+            error={cpiError}
+          />
+        )}
+
+        {activeDeflator && (
+          <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+            <span className="font-semibold">Real terms:</span> prices deflated by {activeDeflator.label} and shown in{' '}
+            {getDeflatorBaseMonth(activeDeflator)} money. Statistics, Growth of $1, returns tables and rolling
+            returns are inflation-adjusted.
+          </div>
+        )}
+
+        {/* Data quality report - Only show when data is loaded */}
+        {hasData && (
+          <DataQualityPanel
+            reports={dataQualityReports}
+            mode={dataQualityMode}
+            onModeChange={setDataQualityMode}
+          />
+        )}
+
         {/* Error Message */}
         {error && (
           <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -172,6 +877,31 @@ export default function Home() {
           </div>
         )}
 
+        {/* Tickers that could not be converted to the base currency */}
+        {unconvertedTickers.length > 0 && (
+          <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-700">
+            Shown in local currency, not {baseCurrency}: {unconvertedTickers.join(', ')}
+          </div>
+        )}
+
+        {/* Per-ticker issues - the remaining tickers are still analyzed */}
+        {tickerErrors.length > 0 && (
+          <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+            <span className="text-amber-800 font-medium text-sm">
+              {tickerErrors.some((te) => te.status === 'error')
+                ? 'Some tickers could not be loaded'
+                : 'Some tickers show cached data'}
+            </span>
+            <ul className="mt-1 space-y-0.5">
+              {tickerErrors.map((te) => (
+                <li key={te.ticker} className="text-sm text-amber-700" title={te.error}>
+                  <span className="font-semibold">{te.ticker}</span>: {describeTickerIssue(te)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Chart and Stats Layout */}
         <div className="flex flex-col lg:flex-row gap-4">
           {/* Chart Section - 80% on large screens */}
@@ -180,16 +910,46 @@ export default function Home() {
               data={chartData}
               tickers={tickers}
               tickersData={filteredTickersData}
-              rawTickersData={rawTickersData}
+              rawTickersData={intervalTickersData}
+              settings={priceChartSettings}
+              onSettingsChange={setPriceChartSettings}
+              dataSources={dataSources}
             />
           </div>
 
           {/* Stats Panel - 20% on large screens */}
           <div className="lg:w-1/5 min-w-[280px]">
-            <StatsPanel statistics={statistics} isLoading={isLoading} />
+            <StatsPanel
+              statistics={statistics}
+              isLoading={isLoading}
+              valueLabel={activeDeflator ? `Real (${activeDeflator.label})` : undefined}
+              benchmarkStatistics={benchmarkStatistics}
+              valueAtRisk={valueAtRisk}
+              exportMetadata={exportMetadata}
+            />
           </div>
         </div>
 
+        {/* Local vs base currency results */}
+        {baseCurrency && (
+          <CurrencyComparison
+            localStatistics={localStatistics}
+            baseStatistics={statistics}
+            currencies={Object.fromEntries(rawTickersData.map((td, i) => [td.ticker, quoteCurrencies[i]]))}
+            baseCurrency={baseCurrency}
+          />
+        )}
+
+        {/* Correlation across loaded tickers - Only for multi-ticker */}
+        {tickers.length > 1 && (
+          <CorrelationSection
+            chartData={chartData}
+            tickers={tickers}
+            exportMetadata={exportMetadata}
+            dataSources={dataSources}
+          />
+        )}
+
         {/* Focus asset selector - Only for multi-ticker */}
         {tickers.length > 1 && (
           <div className="mt-4 mb-2 flex items-center gap-2">
@@ -207,27 +967,62 @@ export default function Home() {
         )}
 
         {/* Trend Following Section */}
-        {tickers.length >= 1 && focusedData.length >= 252 && (
+        {tickers.length >= 1 && focusedData.length >= focusedPeriodsPerYear && (
           <TrendFollowingSection
             data={focusedData}
             rawData={rawFocusedData}
             ticker={focusedTicker}
+            periodsPerYear={focusedPeriodsPerYear}
+            riskFreeRate={riskFreeRate}
+            commission={commission}
+            onRiskFreeRateChange={setRiskFreeRate}
+            onCommissionChange={setCommission}
+            dataSources={focusedDataSources}
+            exportMetadata={exportMetadata}
           />
         )}
 
         {/* Annual Returns Bar Chart */}
         {tickers.length >= 1 && returnsTableData.length > 0 && (
-          <AnnualReturnsChart data={returnsTableData} ticker={focusedTicker} />
+          <AnnualReturnsChart data={returnsTableData} ticker={focusedTicker} dataSources={focusedDataSources} />
         )}
 
         {/* Rolling Returns Chart */}
-        {tickers.length >= 1 && focusedData.length >= 252 && (
-          <RollingReturnsChart data={focusedData} ticker={focusedTicker} />
+        {tickers.length >= 1 && focusedData.length >= focusedPeriodsPerYear && (
+          <RollingReturnsChart
+            data={focusedData}
+            ticker={focusedTicker}
+            rollingYears={rollingYears}
+            onRollingYearsChange={setRollingYears}
+            exportMetadata={exportMetadata}
+            dataSources={focusedDataSources}
+          />
+        )}
+
+        {/* Value at Risk Chart */}
+        {focusedValueAtRisk && (
+          <ValueAtRiskChart
+            data={focusedData}
+            ticker={focusedTicker}
+            report={focusedValueAtRisk}
+            exportMetadata={exportMetadata}
+            dataSources={focusedDataSources}
+          />
+        )}
+
+        {/* Return Distribution */}
+        {tickers.length >= 1 && (
+          <ReturnDistributionSection
+            data={focusedData}
+            ticker={focusedTicker}
+            exportMetadata={exportMetadata}
+            dataSources={focusedDataSources}
+          />
         )}
 
         {/* Monthly Returns Table */}
         {tickers.length >= 1 && returnsTableData.length > 0 && (
-          <ReturnsTable data={returnsTableData} ticker={focusedTicker} />
+          <ReturnsTable data={returnsTableData} ticker={focusedTicker} exportMetadata={exportMetadata} />
         )}
 
         {/* Footer Info */}
@@ -246,6 +1041,9 @@ export default function Home() {
           <p className="mt-1">
             Ticker examples: USDPLN (currencies), IWDA.UK (ETFs), WIG20 (Polish index), BTC.V (crypto)
           </p>
+          <p className="mt-1">
+            Other sources: prefix a ticker with file: (server data directory) or fixture: (synthetic data)
+          </p>
         </footer>
       </div>
     </main>
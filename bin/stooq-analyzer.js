@@ -0,0 +1,3 @@
+#!/usr/bin/env node
+// Build first with "npm run build:cli"
+require('../dist/cli/index.js');
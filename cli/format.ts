@@ -0,0 +1,73 @@
+// Output formats for the CLI: aligned text tables, CSV and JSON.
+
+export type OutputFormat = 'table' | 'csv' | 'json';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['table', 'csv', 'json'];
+
+export type CellValue = string | number | null;
+
+export interface Column {
+  key: string;
+  label: string;
+  kind?: 'text' | 'number' | 'percent'; // default text
+}
+
+export type Row = Record<string, CellValue>;
+
+function formatCell(value: CellValue, kind: Column['kind']): string {
+  if (value === null) return '-';
+  if (typeof value === 'string') return value;
+  if (kind === 'percent') return `${value.toFixed(2)}%`;
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+function formatTable(columns: Column[], rows: Row[]): string {
+  const cells = rows.map((row) => columns.map((c) => formatCell(row[c.key] ?? null, c.kind)));
+  const widths = columns.map((c, i) => Math.max(c.label.length, ...cells.map((r) => r[i].length)));
+
+  // Numbers are right-aligned, text left-aligned
+  const line = (values: string[]) =>
+    values
+      .map((v, i) => (columns[i].kind && columns[i].kind !== 'text' ? v.padStart(widths[i]) : v.padEnd(widths[i])))
+      .join('  ')
+      .trimEnd();
+
+  return [
+    line(columns.map((c) => c.label)),
+    line(widths.map((w) => '-'.repeat(w))),
+    ...cells.map(line),
+  ].join('\n');
+}
+
+function csvEscape(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function formatCSV(columns: Column[], rows: Row[]): string {
+  // Raw values (no % sign, full precision) so the output can be loaded as numbers
+  const lines = [
+    columns.map((c) => csvEscape(c.key)).join(','),
+    ...rows.map((row) =>
+      columns.map((c) => {
+        const value = row[c.key] ?? null;
+        return value === null ? '' : csvEscape(String(value));
+      }).join(',')
+    ),
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Render command output. Table and CSV use the flattened rows; JSON uses
+ * `json`, which keeps the full structure of the results.
+ */
+export function formatOutput(format: OutputFormat, columns: Column[], rows: Row[], json: unknown): string {
+  switch (format) {
+    case 'table':
+      return formatTable(columns, rows);
+    case 'csv':
+      return formatCSV(columns, rows);
+    case 'json':
+      return JSON.stringify(json, null, 2);
+  }
+}
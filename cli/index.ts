@@ -0,0 +1,296 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { StooqInterval, TickerData } from '../lib/types';
+import { loadTickers } from '../lib/providers';
+import { parseUploadedFile } from '../lib/upload';
+import { calculateDrawdownEpisodes, filterDataByDateRange, resampleData } from '../lib/statistics';
+import { AnalysisOptions, AnalysisOptionsError, analyzeTicker, parseAnalysisOptions, TickerAnalysis } from '../lib/analysis';
+import { Column, formatOutput, OutputFormat, OUTPUT_FORMATS, Row } from './format';
+
+const USAGE = `Usage: stooq-analyzer <command> <ticker|file>... [options]
+
+Commands:
+  stats       Summary statistics per ticker
+  returns     Monthly returns table
+  trend       Trend-following (SMA) backtest vs buy & hold
+  drawdowns   Largest drawdown episodes
+
+Tickers use the dashboard syntax (WIG20, file:MYFUND, "CSPX.UK/IWDA.UK").
+Arguments ending in .csv, .json or .txt are read as price files.
+
+Options:
+  --from YYYY-MM-DD         Start of the analysis range
+  --to YYYY-MM-DD           End of the analysis range
+  --interval d|w|m|q|y      Bar interval (default d)
+  --periods-per-year N      Annualization override (default: detected)
+  --mar R                   Minimum acceptable return for Sortino/Omega, e.g. 0.05 (default 0)
+  --risk-free-rate R        Trend backtest cash rate, e.g. 0.02 (default 0.02)
+  --commission C            Trend backtest cost per trade, e.g. 0.002 (default 0.002)
+  --top N                   Drawdown episodes per ticker (default 10)
+  --format table|csv|json   Output format (default table)
+  --offline                 Use only the local cache (STOOQ_CACHE_DIR), never download
+  --help                    Show this help`;
+
+const COMMANDS = ['stats', 'returns', 'trend', 'drawdowns'] as const;
+type Command = (typeof COMMANDS)[number];
+
+const BOOLEAN_FLAGS = ['offline', 'help'];
+const VALUE_FLAGS = [
+  'from', 'to', 'interval', 'periods-per-year', 'mar', 'risk-free-rate', 'commission', 'top', 'format',
+];
+const FILE_PATTERN = /\.(csv|json|txt)$/i;
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+interface ParsedArgs {
+  positional: string[];
+  flags: Record<string, string | true>;
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { positional: [], flags: {} };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      parsed.positional.push(arg);
+      continue;
+    }
+
+    // --name value or --name=value
+    const eq = arg.indexOf('=');
+    const name = eq < 0 ? arg.slice(2) : arg.slice(2, eq);
+    const inlineValue = eq < 0 ? undefined : arg.slice(eq + 1);
+    if (BOOLEAN_FLAGS.includes(name)) {
+      parsed.flags[name] = true;
+    } else if (VALUE_FLAGS.includes(name)) {
+      const value = inlineValue ?? argv[++i];
+      if (value === undefined) throw new CliUsageError(`--${name} requires a value`);
+      parsed.flags[name] = value;
+    } else {
+      throw new CliUsageError(`Unknown option --${name}`);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Load the requested series: price files from disk, everything else through
+ * the data providers (and their cache). Failed tickers are reported on stderr.
+ */
+async function loadInputs(inputs: string[], interval: StooqInterval): Promise<TickerData[]> {
+  const files = inputs.filter((input) => FILE_PATTERN.test(input));
+  const tickers = inputs.filter((input) => !FILE_PATTERN.test(input));
+
+  const fromFiles = await Promise.all(
+    files.map(async (file) => {
+      const fileName = path.basename(file);
+      const symbol = fileName.replace(FILE_PATTERN, '').toUpperCase();
+      const { data } = parseUploadedFile(await fs.readFile(file, 'utf-8'), fileName, symbol);
+      return { ticker: symbol, data: interval === 'd' ? data : resampleData(data, interval) };
+    })
+  );
+
+  const loaded = tickers.length > 0 ? await loadTickers(tickers, interval) : null;
+  for (const result of loaded?.results || []) {
+    if (result.status !== 'ok') {
+      console.error(`${result.ticker}: ${result.status === 'stale' ? 'using cached data, ' : ''}${result.error}`);
+    }
+  }
+
+  return [...fromFiles, ...(loaded?.data || [])];
+}
+
+interface CommandOutput {
+  columns: Column[];
+  rows: Row[];
+  json: unknown;
+}
+
+function statsOutput(analyses: TickerAnalysis[]): CommandOutput {
+  const stats = analyses.flatMap((a) => (a.statistics ? [a.statistics] : []));
+  return {
+    columns: [
+      { key: 'ticker', label: 'Ticker' },
+      { key: 'startDate', label: 'From' },
+      { key: 'endDate', label: 'To' },
+      { key: 'periodReturn', label: 'Return', kind: 'percent' },
+      { key: 'cagr', label: 'CAGR', kind: 'percent' },
+      { key: 'annualizedStd', label: 'Volatility', kind: 'percent' },
+      { key: 'sharpeRatio', label: 'Sharpe', kind: 'number' },
+      { key: 'sortinoRatio', label: 'Sortino', kind: 'number' },
+      { key: 'calmarRatio', label: 'Calmar', kind: 'number' },
+      { key: 'maxDrawdown', label: 'Max DD', kind: 'percent' },
+      { key: 'maxDrawdownDate', label: 'Max DD date' },
+      { key: 'ulcerIndex', label: 'Ulcer', kind: 'percent' },
+      { key: 'currentDrawdown', label: 'Current DD', kind: 'percent' },
+      { key: 'ytdReturn', label: 'YTD', kind: 'percent' },
+      { key: 'oneYearReturn', label: '1Y', kind: 'percent' },
+      { key: 'threeYearReturn', label: '3Y', kind: 'percent' },
+    ],
+    rows: stats.map((s) => ({ ...s })),
+    json: stats,
+  };
+}
+
+function returnsOutput(analyses: TickerAnalysis[]): CommandOutput {
+  return {
+    columns: [
+      { key: 'ticker', label: 'Ticker' },
+      { key: 'year', label: 'Year', kind: 'number' },
+      ...MONTHS.map((m): Column => ({ key: m.toLowerCase(), label: m, kind: 'percent' })),
+      { key: 'annual', label: 'Annual', kind: 'percent' },
+    ],
+    rows: analyses.flatMap((a) =>
+      a.returnsTable.years.map((y) => ({
+        ticker: a.ticker,
+        year: y.year,
+        ...Object.fromEntries(MONTHS.map((m, i) => [m.toLowerCase(), y.monthlyReturns[i]])),
+        annual: y.annualReturn,
+      }))
+    ),
+    json: analyses.map((a) => ({
+      ticker: a.ticker,
+      years: a.returnsTable.years.map(({ year, monthlyReturns, annualReturn, annualStd, maxDrawdown }) => ({
+        year,
+        monthlyReturns,
+        annualReturn,
+        annualStd,
+        maxDrawdown,
+      })),
+    })),
+  };
+}
+
+function trendOutput(analyses: TickerAnalysis[]): CommandOutput {
+  const withTrend = analyses.filter((a) => {
+    if (!a.trendFollowing) console.error(`${a.ticker}: at least a year of data is needed for the trend backtest`);
+    return a.trendFollowing !== null;
+  });
+
+  return {
+    columns: [
+      { key: 'ticker', label: 'Ticker' },
+      { key: 'strategy', label: 'Strategy' },
+      { key: 'finalAmount', label: 'Final', kind: 'number' },
+      { key: 'totalReturn', label: 'Return', kind: 'percent' },
+      { key: 'cagr', label: 'CAGR', kind: 'percent' },
+      { key: 'annualizedStd', label: 'Volatility', kind: 'percent' },
+      { key: 'sharpeRatio', label: 'Sharpe', kind: 'number' },
+      { key: 'maxDrawdown', label: 'Max DD', kind: 'percent' },
+      { key: 'signal', label: 'Signal' },
+    ],
+    rows: withTrend.flatMap((a) => {
+      const trend = a.trendFollowing!;
+      return [
+        { ticker: a.ticker, strategy: 'Buy & hold', ...trend.buyHoldStats, signal: null },
+        { ticker: a.ticker, strategy: 'Trend following', ...trend.trendFollowingStats, signal: trend.currentSignal },
+      ];
+    }),
+    json: withTrend.map((a) => ({
+      ticker: a.ticker,
+      currentSignal: a.trendFollowing!.currentSignal,
+      buyHold: a.trendFollowing!.buyHoldStats,
+      trendFollowing: a.trendFollowing!.trendFollowingStats,
+      signalDates: a.trendFollowing!.signalDates,
+    })),
+  };
+}
+
+function drawdownsOutput(tickersData: TickerData[], analyses: TickerAnalysis[], top: number): CommandOutput {
+  const episodes = analyses.map((a, i) => ({
+    ticker: a.ticker,
+    episodes: calculateDrawdownEpisodes(filterDataByDateRange(tickersData[i].data, a.startDate, a.endDate))
+      .sort((x, y) => y.depth - x.depth)
+      .slice(0, top),
+  }));
+
+  return {
+    columns: [
+      { key: 'ticker', label: 'Ticker' },
+      { key: 'rank', label: '#', kind: 'number' },
+      { key: 'depth', label: 'Depth', kind: 'percent' },
+      { key: 'peakDate', label: 'Peak' },
+      { key: 'troughDate', label: 'Trough' },
+      { key: 'recoveryDate', label: 'Recovery' },
+      { key: 'daysToTrough', label: 'Days to trough', kind: 'number' },
+      { key: 'daysToRecovery', label: 'Days to recovery', kind: 'number' },
+    ],
+    rows: episodes.flatMap((t) => t.episodes.map((e, i) => ({ ticker: t.ticker, rank: i + 1, ...e }))),
+    json: episodes,
+  };
+}
+
+async function run(argv: string[]): Promise<void> {
+  const { positional, flags } = parseArgs(argv);
+  const [command, ...inputs] = positional;
+
+  if (flags.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+  if (!COMMANDS.includes(command as Command)) {
+    throw new CliUsageError(`Unknown command "${command}"`);
+  }
+  if (inputs.length === 0) {
+    throw new CliUsageError('Give at least one ticker or price file');
+  }
+
+  const format = (flags.format || 'table') as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new CliUsageError(`--format must be one of ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  const top = Number(flags.top || 10);
+  if (!Number.isInteger(top) || top < 1) {
+    throw new CliUsageError('--top must be a positive whole number');
+  }
+
+  let options: AnalysisOptions;
+  try {
+    options = parseAnalysisOptions({
+      from: flags.from,
+      to: flags.to,
+      interval: flags.interval,
+      periodsPerYear: flags['periods-per-year'],
+      minAcceptableReturn: flags.mar,
+      riskFreeRate: flags['risk-free-rate'],
+      commission: flags.commission,
+    });
+  } catch (error) {
+    if (error instanceof AnalysisOptionsError) throw new CliUsageError(error.message);
+    throw error;
+  }
+
+  if (flags.offline) process.env.STOOQ_OFFLINE = '1';
+
+  const tickersData = await loadInputs(inputs, options.interval);
+  if (tickersData.length === 0) {
+    throw new Error('No data loaded');
+  }
+  const analyses = tickersData.map((td) => analyzeTicker(td, options));
+
+  const output =
+    command === 'stats' ? statsOutput(analyses)
+      : command === 'returns' ? returnsOutput(analyses)
+        : command === 'trend' ? trendOutput(analyses)
+          : drawdownsOutput(tickersData, analyses, top);
+
+  console.log(formatOutput(format, output.columns, output.rows, output.json));
+}
+
+run(process.argv.slice(2)).catch((error) => {
+  if (error instanceof CliUsageError) {
+    console.error(`${error.message}\n\nRun "stooq-analyzer --help" for usage.`);
+    process.exitCode = 2;
+    return;
+  }
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
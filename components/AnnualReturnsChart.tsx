@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useRef } from 'react';
 import {
   ComposedChart,
   Bar,
@@ -19,12 +19,14 @@ import {
   flattenMonthlyReturns,
   calculateQuarterlyReturns,
 } from '@/lib/statistics';
+import ChartImageExport from './ChartImageExport';
 
 type ViewMode = 'monthly' | 'quarterly' | 'annual';
 
 interface AnnualReturnsChartProps {
   data: YearlyData[];
   ticker: string;
+  dataSources?: string[]; // named in the image export footer
 }
 
 interface ChartDataPoint {
@@ -148,8 +150,9 @@ function PeriodicBarLabel(props: Record<string, unknown>) {
   );
 }
 
-export default function AnnualReturnsChart({ data, ticker }: AnnualReturnsChartProps) {
+export default function AnnualReturnsChart({ data, ticker, dataSources }: AnnualReturnsChartProps) {
   const [viewMode, setViewMode] = useState<ViewMode>('annual');
+  const chartRef = useRef<HTMLDivElement>(null);
 
   // Transform annual data for the chart
   const annualChartData: ChartDataPoint[] = useMemo(() =>
@@ -179,6 +182,17 @@ export default function AnnualReturnsChart({ data, ticker }: AnnualReturnsChartP
     quarterly: `${ticker} Quarterly Returns`,
     monthly: `${ticker} Monthly Returns`,
   };
+  // Mirrors the HTML legend below for the exported image
+  const imageLegend = viewMode === 'annual'
+    ? [
+        { label: 'Annual Return (%)', color: '#1f2937' },
+        { label: 'Max Drawdown (%)', color: '#dc2626' },
+        { label: 'Number of ATHs', color: '#166534' },
+      ]
+    : [
+        { label: 'Positive Return', color: '#1f2937' },
+        { label: 'Negative Return', color: '#dc2626' },
+      ];
 
   // --- Annual mode rendering (unchanged from original) ---
   const renderAnnualChart = () => {
@@ -382,6 +396,15 @@ export default function AnnualReturnsChart({ data, ticker }: AnnualReturnsChartP
             </button>
           ))}
         </div>
+        <div className="ml-auto">
+          <ChartImageExport
+            targetRef={chartRef}
+            sources={dataSources}
+            fileName={`${ticker}_${viewMode}_returns`}
+            title={titleMap[viewMode]}
+            legend={imageLegend}
+          />
+        </div>
       </div>
 
       {/* Legend — full for annual, simple for monthly/quarterly */}
@@ -413,7 +436,7 @@ export default function AnnualReturnsChart({ data, ticker }: AnnualReturnsChartP
         </div>
       )}
 
-      <div className="h-64">
+      <div ref={chartRef} className="h-64">
         {viewMode === 'annual' ? renderAnnualChart() : renderPeriodicChart()}
       </div>
     </div>
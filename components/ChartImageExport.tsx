@@ -0,0 +1,106 @@
+'use client';
+
+import { useState, useRef, useEffect, RefObject } from 'react';
+import { buildChartImage, chartImageToPng, ChartLegendItem, PNG_SCALES } from '@/lib/chartImage';
+import { downloadBlob, safeFileName } from '@/lib/export';
+
+interface ChartImageExportProps {
+  targetRef: RefObject<HTMLElement>; // element containing the rendered chart(s)
+  fileName: string;                  // without extension
+  title: string;
+  subtitle?: string;
+  legend?: ChartLegendItem[];
+  sources?: string[];                // data sources named in the footer
+  compact?: boolean;                 // smaller button for charts without a header
+}
+
+export default function ChartImageExport({
+  targetRef,
+  fileName,
+  title,
+  subtitle,
+  legend,
+  sources,
+  compact = false,
+}: ChartImageExportProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu or dismiss the error when clicking outside
+  useEffect(() => {
+    if (!isOpen && !exportError) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (containerRef.current?.contains(e.target as Node)) return;
+      setIsOpen(false);
+      setExportError(null);
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen, exportError]);
+
+  // scale = null: SVG, otherwise PNG at that multiple of the on-screen size
+  const handleExport = async (scale: number | null) => {
+    setIsOpen(false);
+    setExportError(null);
+    if (!targetRef.current) {
+      setExportError('The chart is not rendered');
+      return;
+    }
+
+    try {
+      const image = buildChartImage(targetRef.current, { title, subtitle, legend, sources });
+      const baseName = safeFileName(fileName);
+      if (scale === null) {
+        downloadBlob(new Blob([image.svg], { type: 'image/svg+xml' }), `${baseName}.svg`);
+      } else {
+        downloadBlob(await chartImageToPng(image, scale), `${baseName}${scale > 1 ? `@${scale}x` : ''}.png`);
+      }
+    } catch (err) {
+      setExportError(`Could not export the image${err instanceof Error ? `: ${err.message}` : ''}`);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => {
+          setIsOpen(!isOpen);
+          setExportError(null);
+        }}
+        className={`${compact ? 'text-xs px-2 py-0.5' : 'text-sm px-3 py-1'} border border-gray-300 rounded bg-white hover:bg-gray-100 text-gray-700 transition-colors`}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        title="Download chart image"
+      >
+        Image ▾
+      </button>
+      {isOpen && (
+        <div role="menu" className="absolute right-0 mt-1 w-32 bg-white border border-gray-200 rounded shadow-lg z-20 py-1">
+          <button
+            role="menuitem"
+            onClick={() => handleExport(null)}
+            className="block w-full text-left text-sm px-3 py-1 text-gray-700 hover:bg-blue-50 hover:text-blue-700"
+          >
+            SVG
+          </button>
+          {PNG_SCALES.map((scale) => (
+            <button
+              key={scale}
+              role="menuitem"
+              onClick={() => handleExport(scale)}
+              className="block w-full text-left text-sm px-3 py-1 text-gray-700 hover:bg-blue-50 hover:text-blue-700"
+            >
+              PNG {scale}x
+            </button>
+          ))}
+        </div>
+      )}
+      {exportError && !isOpen && (
+        <p role="alert" className="absolute right-0 mt-1 w-56 bg-white border border-red-200 rounded shadow-lg z-20 px-3 py-1 text-xs text-red-600">
+          {exportError}
+        </p>
+      )}
+    </div>
+  );
+}
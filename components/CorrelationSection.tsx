@@ -0,0 +1,275 @@
+'use client';
+
+import { useState, useMemo, useRef } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { ChartDataPoint, CorrelationFrequency, RollingCorrelationWindow } from '@/lib/types';
+import {
+  calculateCorrelationMatrix,
+  calculatePairReturns,
+  calculateRollingCorrelation,
+  RollingCorrelationPoint,
+} from '@/lib/statistics';
+import { correlationExport, ExportMetadata, withParameters } from '@/lib/export';
+import ExportMenu from './ExportMenu';
+import ChartImageExport from './ChartImageExport';
+import DateAxisTick, { computeEvenTicks } from './DateAxisTick';
+
+interface CorrelationSectionProps {
+  chartData: ChartDataPoint[]; // date-aligned series from normalizeDataForChart
+  tickers: string[];
+  exportMetadata?: ExportMetadata;
+  dataSources?: string[]; // named in the image export footer
+}
+
+const FREQUENCY_OPTIONS: { value: CorrelationFrequency; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+const WINDOW_OPTIONS: RollingCorrelationWindow[] = ['3M', '6M', '1Y', '3Y'];
+
+// Diverging scale: red for positive, blue for negative correlation
+function correlationColor(value: number | null): { backgroundColor: string; color: string } {
+  if (value === null) return { backgroundColor: '#f3f4f6', color: '#9ca3af' };
+  const alpha = Math.min(1, Math.abs(value));
+  return {
+    backgroundColor: value >= 0 ? `rgba(220, 38, 38, ${alpha})` : `rgba(37, 99, 235, ${alpha})`,
+    color: alpha > 0.55 ? 'white' : '#1f2937',
+  };
+}
+
+function RollingCorrelationTooltip({ active, payload }: {
+  active?: boolean;
+  payload?: { payload: RollingCorrelationPoint }[];
+}) {
+  if (!active || !payload || payload.length === 0) return null;
+  const point = payload[0].payload;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg shadow-md px-3 py-2 text-xs">
+      <div className="font-semibold text-gray-800">{point.date}</div>
+      <div className="text-blue-600">Correlation: {point.correlation.toFixed(2)}</div>
+      <div className="text-gray-500">{point.observations} returns in window</div>
+    </div>
+  );
+}
+
+export default function CorrelationSection({ chartData, tickers, exportMetadata, dataSources }: CorrelationSectionProps) {
+  const [frequency, setFrequency] = useState<CorrelationFrequency>('daily');
+  const [pair, setPair] = useState<[string, string]>(['', '']);
+  const [rollingWindow, setRollingWindow] = useState<RollingCorrelationWindow>('1Y');
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  // Fall back to the first two tickers when the chosen pair is no longer loaded
+  const first = tickers.includes(pair[0]) ? pair[0] : tickers[0];
+  const second = tickers.includes(pair[1]) && pair[1] !== first
+    ? pair[1]
+    : tickers.find((t) => t !== first) || '';
+
+  const matrix = useMemo(
+    () => calculateCorrelationMatrix(chartData, tickers, frequency),
+    [chartData, tickers, frequency]
+  );
+
+  const rollingData = useMemo(() => {
+    if (!first || !second) return [];
+    return calculateRollingCorrelation(calculatePairReturns(chartData, first, second, frequency), rollingWindow);
+  }, [chartData, first, second, frequency, rollingWindow]);
+
+  if (tickers.length < 2) return null;
+
+  const dates = rollingData.map((d) => d.date);
+  const dateRangeDays = dates.length > 1
+    ? (new Date(dates[dates.length - 1]).getTime() - new Date(dates[0]).getTime()) / (1000 * 60 * 60 * 24)
+    : 0;
+  const isShortRange = dateRangeDays <= 93;
+  const isLongRange = dateRangeDays > 365 * 5;
+  const xAxisHeight = (!isShortRange && !isLongRange) ? 35 : undefined;
+  const lastPoint = rollingData[rollingData.length - 1];
+  const frequencyLabel = FREQUENCY_OPTIONS.find((o) => o.value === frequency)?.label;
+
+  const selectClass =
+    'text-sm border border-gray-300 rounded px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 mt-4">
+      {/* Header */}
+      <div className="mb-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <h2 className="text-lg font-semibold text-gray-800">Correlation</h2>
+          <div className="flex gap-1">
+            {FREQUENCY_OPTIONS.map((opt) => (
+              <button
+                key={opt.value}
+                onClick={frequency !== opt.value ? () => setFrequency(opt.value) : undefined}
+                className={`px-2 py-0.5 text-xs rounded transition-colors ${
+                  frequency === opt.value
+                    ? 'bg-gray-800 text-white'
+                    : 'bg-gray-100 text-gray-500 border border-gray-200 hover:bg-gray-200'
+                }`}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+          {exportMetadata && (
+            <div className="ml-auto">
+              <ExportMenu
+                fileName={`correlation_${frequency}`}
+                metadata={withParameters(exportMetadata, {
+                  returns: frequency,
+                  rollingPair: `${first}/${second}`,
+                  rollingWindow,
+                })}
+                build={() => correlationExport(matrix, first, second, rollingData)}
+              />
+            </div>
+          )}
+        </div>
+        <p className="text-sm text-gray-500 mt-1">
+          Pearson correlation of {frequency} returns over the dates each pair has in common. Click a cell to
+          chart that pair below.
+        </p>
+      </div>
+
+      {/* Heatmap */}
+      <div className="overflow-x-auto custom-scrollbar mb-6">
+        <table className="text-xs border-collapse">
+          <thead>
+            <tr>
+              <th className="p-1"></th>
+              {matrix.tickers.map((t) => (
+                <th key={t} className="p-1 font-semibold text-gray-700 text-center min-w-[64px]">{t}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {matrix.tickers.map((rowTicker, i) => (
+              <tr key={rowTicker}>
+                <th className="p-1 pr-2 font-semibold text-gray-700 text-right">{rowTicker}</th>
+                {matrix.values[i].map((value, j) => (
+                  <td
+                    key={matrix.tickers[j]}
+                    onClick={i !== j ? () => setPair([rowTicker, matrix.tickers[j]]) : undefined}
+                    title={`${rowTicker} / ${matrix.tickers[j]}: ${matrix.observations[i][j]} common returns`}
+                    className={`p-2 text-center font-medium border border-white ${
+                      i !== j ? 'cursor-pointer hover:opacity-80' : ''
+                    }`}
+                    style={correlationColor(value)}
+                  >
+                    {value !== null ? value.toFixed(2) : 'n/a'}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Rolling correlation controls */}
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-gray-600">Pair:</label>
+          <select value={first} onChange={(e) => setPair([e.target.value, second])} className={selectClass}>
+            {tickers.map((t) => (
+              <option key={t} value={t}>{t}</option>
+            ))}
+          </select>
+          <span className="text-sm text-gray-500">vs</span>
+          <select value={second} onChange={(e) => setPair([first, e.target.value])} className={selectClass}>
+            {tickers.filter((t) => t !== first).map((t) => (
+              <option key={t} value={t}>{t}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-gray-600">Window:</label>
+          <div className="flex gap-1">
+            {WINDOW_OPTIONS.map((w) => (
+              <button
+                key={w}
+                onClick={rollingWindow !== w ? () => setRollingWindow(w) : undefined}
+                className={`px-2 py-0.5 text-xs rounded transition-colors ${
+                  rollingWindow === w
+                    ? 'bg-gray-800 text-white'
+                    : 'bg-gray-100 text-gray-500 border border-gray-200 hover:bg-gray-200'
+                }`}
+              >
+                {w}
+              </button>
+            ))}
+          </div>
+        </div>
+        {rollingData.length > 0 && (
+          <div className="ml-auto">
+            <ChartImageExport
+              targetRef={chartRef}
+              sources={dataSources}
+              fileName={`${first}_${second}_rolling_correlation_${rollingWindow}`}
+              title={`${first} vs ${second} Rolling ${rollingWindow} Correlation`}
+              subtitle={`${frequencyLabel} returns, ${dates[0]} to ${dates[dates.length - 1]}`}
+              legend={[{ label: 'Correlation', color: '#2563eb' }]}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Rolling correlation chart */}
+      {rollingData.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Not enough common history for a {rollingWindow} window of {frequency} returns.
+        </p>
+      ) : (
+        <div ref={chartRef} className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={rollingData} margin={{ top: 10, right: 30, left: -15, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis
+                dataKey="date"
+                tick={(props) => <DateAxisTick {...props} isShortRange={isShortRange} isLongRange={isLongRange} />}
+                ticks={computeEvenTicks(dates, 8)}
+                axisLine={false}
+                tickLine={false}
+                height={xAxisHeight}
+              />
+              <YAxis
+                tick={{ fontSize: 10, fill: '#6b7280' }}
+                tickFormatter={(value) => value.toFixed(1)}
+                domain={[-1, 1]}
+                ticks={[-1, -0.5, 0, 0.5, 1]}
+              />
+              <Tooltip content={<RollingCorrelationTooltip />} />
+              <ReferenceLine y={0} stroke="#9ca3af" strokeWidth={1} />
+              {lastPoint && (
+                <ReferenceLine
+                  y={lastPoint.correlation}
+                  stroke="#2563eb"
+                  strokeDasharray="4 4"
+                  strokeOpacity={0.5}
+                />
+              )}
+              <Line
+                type="monotone"
+                dataKey="correlation"
+                stroke="#2563eb"
+                strokeWidth={2}
+                dot={false}
+                name="Correlation"
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { Statistics } from '@/lib/types';
+
+interface CurrencyComparisonProps {
+  localStatistics: Statistics[];
+  baseStatistics: Statistics[];
+  currencies: Record<string, string | null>; // quote currency per ticker
+  baseCurrency: string;
+}
+
+type MetricKey = 'cagr' | 'periodReturn' | 'maxDrawdown' | 'annualizedStd' | 'sharpeRatio';
+
+function formatPercent(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+}
+
+const METRICS: { label: string; key: MetricKey; format: (value: number) => string; colorize: boolean }[] = [
+  { label: 'CAGR', key: 'cagr', format: formatPercent, colorize: true },
+  { label: 'Total Return', key: 'periodReturn', format: formatPercent, colorize: true },
+  // maxDrawdown is stored as a positive percentage
+  { label: 'Max Drawdown', key: 'maxDrawdown', format: (v) => `-${v.toFixed(2)}%`, colorize: false },
+  { label: 'Volatility', key: 'annualizedStd', format: (v) => `${v.toFixed(2)}%`, colorize: false },
+  { label: 'Sharpe', key: 'sharpeRatio', format: (v) => v.toFixed(2), colorize: true },
+];
+
+interface MetricCellsProps {
+  local: number;
+  base: number | undefined;
+  format: (value: number) => string;
+  colorize: boolean;
+}
+
+function MetricCells({ local, base, format, colorize }: MetricCellsProps) {
+  const color = (value: number) => (!colorize ? 'text-gray-900' : value < 0 ? 'text-red-600' : 'text-green-600');
+
+  return (
+    <>
+      <td className={`px-3 py-2 text-right ${color(local)}`}>{format(local)}</td>
+      <td className={`px-3 py-2 text-right font-medium ${base === undefined ? 'text-gray-400' : color(base)}`}>
+        {base === undefined ? '-' : format(base)}
+      </td>
+    </>
+  );
+}
+
+export default function CurrencyComparison({
+  localStatistics,
+  baseStatistics,
+  currencies,
+  baseCurrency,
+}: CurrencyComparisonProps) {
+  if (localStatistics.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 mt-4">
+      <h2 className="text-lg font-semibold text-gray-800 mb-4">
+        Local vs {baseCurrency} Returns
+      </h2>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200">
+              <th rowSpan={2} className="px-3 py-2 text-left font-semibold text-gray-700">Ticker</th>
+              <th rowSpan={2} className="px-3 py-2 text-left font-semibold text-gray-700">Quote</th>
+              {METRICS.map((m) => (
+                <th key={m.key} colSpan={2} className="px-3 pt-2 text-center font-semibold text-gray-700">
+                  {m.label}
+                </th>
+              ))}
+            </tr>
+            <tr className="border-b border-gray-200 text-xs text-gray-500">
+              {METRICS.map((m) => (
+                <th key={m.key} colSpan={2} className="px-3 pb-2">
+                  <div className="flex justify-between gap-4">
+                    <span>Local</span>
+                    <span>{baseCurrency}</span>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {localStatistics.map((local) => {
+              const base = baseStatistics.find((s) => s.ticker === local.ticker);
+              const currency = currencies[local.ticker];
+
+              return (
+                <tr key={local.ticker} className="border-b border-gray-100 last:border-b-0">
+                  <td className="px-3 py-2 font-semibold text-gray-800">{local.ticker}</td>
+                  <td className="px-3 py-2 text-gray-600">
+                    {currency ?? <span className="text-amber-700" title="Quote currency unknown - not converted">?</span>}
+                  </td>
+                  {METRICS.map((m) => (
+                    <MetricCells
+                      key={m.key}
+                      local={local[m.key]}
+                      base={base?.[m.key]}
+                      format={m.format}
+                      colorize={m.colorize}
+                    />
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { useState } from 'react';
+import { DataQualityReport, DataQualityMode, DataQualityIssueType } from '@/lib/types';
+
+interface DataQualityPanelProps {
+  reports: DataQualityReport[];
+  mode: DataQualityMode;
+  onModeChange: (mode: DataQualityMode) => void;
+}
+
+const ISSUE_LABELS: Record<DataQualityIssueType, { label: string; className: string }> = {
+  gap: { label: 'Gap', className: 'bg-gray-100 text-gray-700' },
+  outlier: { label: 'Bad print', className: 'bg-red-100 text-red-700' },
+  stale: { label: 'Stale close', className: 'bg-amber-100 text-amber-800' },
+  ohlc: { label: 'OHLC', className: 'bg-purple-100 text-purple-700' },
+  split: { label: 'Split?', className: 'bg-blue-100 text-blue-700' },
+};
+
+const MODE_OPTIONS: { value: DataQualityMode; label: string }[] = [
+  { value: 'flag', label: 'Flag only' },
+  { value: 'exclude', label: 'Exclude flagged rows' },
+  { value: 'patch', label: 'Patch flagged rows' },
+];
+
+// Issues listed per ticker before "Show all"
+const ISSUE_PREVIEW_COUNT = 10;
+
+function TickerReport({ report }: { report: DataQualityReport }) {
+  const [showAll, setShowAll] = useState(false);
+
+  const counts = report.issues.reduce<Partial<Record<DataQualityIssueType, number>>>((acc, issue) => {
+    acc[issue.type] = (acc[issue.type] || 0) + 1;
+    return acc;
+  }, {});
+  const visible = showAll ? report.issues : report.issues.slice(0, ISSUE_PREVIEW_COUNT);
+
+  return (
+    <div className="py-2 border-b border-gray-100 last:border-b-0">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-semibold text-sm text-gray-800">{report.ticker}</span>
+        <span className="text-xs text-gray-500">{report.rowCount} rows</span>
+        {report.issues.length === 0 && (
+          <span className="text-xs px-2 py-0.5 rounded-full bg-green-100 text-green-700">No issues</span>
+        )}
+        {(Object.keys(counts) as DataQualityIssueType[]).map((type) => (
+          <span key={type} className={`text-xs px-2 py-0.5 rounded-full ${ISSUE_LABELS[type].className}`}>
+            {ISSUE_LABELS[type].label}: {counts[type]}
+          </span>
+        ))}
+      </div>
+
+      {visible.length > 0 && (
+        <ul className="mt-1 space-y-0.5">
+          {visible.map((issue, i) => (
+            <li key={`${issue.type}-${issue.date}-${i}`} className="text-xs text-gray-600">
+              <span className="font-mono text-gray-800">{issue.date}</span>{' '}
+              <span className="font-medium">{ISSUE_LABELS[issue.type].label}</span> - {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {report.issues.length > ISSUE_PREVIEW_COUNT && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="mt-1 text-xs text-blue-600 hover:underline"
+        >
+          {showAll ? 'Show less' : `Show all ${report.issues.length}`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default function DataQualityPanel({ reports, mode, onModeChange }: DataQualityPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const totalIssues = reports.reduce((sum, r) => sum + r.issues.length, 0);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md mb-4 overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-3 hover:bg-gray-50 transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <span className="font-semibold text-gray-800">Data Quality</span>
+          <span className={`text-sm ${totalIssues > 0 ? 'text-amber-700' : 'text-green-700'}`}>
+            {totalIssues > 0 ? `${totalIssues} issue${totalIssues === 1 ? '' : 's'} found` : 'No issues found'}
+          </span>
+        </span>
+        <svg
+          className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-3 border-t border-gray-200">
+          <div className="py-2 flex flex-wrap items-center gap-2">
+            <label className="text-sm font-medium text-gray-700">Before analysis:</label>
+            <select
+              value={mode}
+              onChange={(e) => onModeChange(e.target.value as DataQualityMode)}
+              className="text-sm border border-gray-300 rounded px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {MODE_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>{opt.label}</option>
+              ))}
+            </select>
+            <span className="text-xs text-gray-500">
+              {mode === 'patch'
+                ? 'Bad prints are interpolated, OHLC bars repaired, prices before splits adjusted and stale repeats dropped'
+                : mode === 'exclude'
+                  ? 'Bad prints, stale repeats and inconsistent OHLC bars are removed'
+                  : 'Data is analyzed as downloaded'}
+            </span>
+          </div>
+
+          {reports.map((report) => (
+            <TickerReport key={report.ticker} report={report} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
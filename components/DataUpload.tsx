@@ -0,0 +1,121 @@
+'use client';
+
+import { useState, useRef, ChangeEvent, FormEvent } from 'react';
+import { TickerData } from '@/lib/types';
+import { parseUploadedFile, UploadParseError } from '@/lib/upload';
+import { BASE_CURRENCIES } from '@/lib/currency';
+
+interface DataUploadProps {
+  uploadedTickers: string[];
+  onUpload: (tickerData: TickerData) => void;
+  onRemove: (ticker: string) => void;
+  disabled?: boolean;
+}
+
+export default function DataUpload({ uploadedTickers, onUpload, onRemove, disabled }: DataUploadProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [symbol, setSymbol] = useState('');
+  // Quote currency of the uploaded series; empty = unknown, never converted
+  const [currency, setCurrency] = useState('');
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] || null;
+    setFile(selected);
+    setUploadError(null);
+    if (selected) {
+      // Default symbol: file name without extension
+      setSymbol(selected.name.replace(/\.[^.]+$/, '').toUpperCase());
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!file || symbol.trim().length === 0) return;
+
+    try {
+      const content = await file.text();
+      onUpload({ ...parseUploadedFile(content, file.name, symbol), currency: currency || undefined });
+      setFile(null);
+      setSymbol('');
+      setUploadError(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    } catch (err) {
+      console.error('Upload error:', err);
+      setUploadError(
+        err instanceof UploadParseError ? err.message : `Could not read ${file.name}`
+      );
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 mb-4">
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-gray-700">Upload series:</span>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.json,.txt"
+          onChange={handleFileChange}
+          disabled={disabled}
+          className="text-sm text-gray-700 file:mr-3 file:px-3 file:py-1 file:rounded file:border-0 file:bg-gray-100 file:text-gray-700 hover:file:bg-gray-200"
+        />
+        <input
+          type="text"
+          value={symbol}
+          onChange={(e) => setSymbol(e.target.value)}
+          placeholder="Symbol"
+          className="w-40 text-sm px-3 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          disabled={disabled || !file}
+        />
+        <select
+          value={currency}
+          onChange={(e) => setCurrency(e.target.value)}
+          disabled={disabled || !file}
+          title="Quote currency, used for base-currency conversion"
+          className="text-sm border border-gray-300 rounded px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">Currency?</option>
+          {BASE_CURRENCIES.map((c) => (
+            <option key={c} value={c}>{c}</option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={disabled || !file || symbol.trim().length === 0}
+          className="text-sm px-4 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium"
+        >
+          Add
+        </button>
+        <span className="text-xs text-gray-400">CSV (Stooq, Yahoo, date/close) or JSON</span>
+      </form>
+
+      {uploadError && (
+        <p className="mt-2 text-sm text-red-600">{uploadError}</p>
+      )}
+
+      {uploadedTickers.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          <span className="text-sm text-gray-500">Uploaded:</span>
+          {uploadedTickers.map((ticker) => (
+            <span
+              key={ticker}
+              className="text-sm pl-3 pr-1 py-1 bg-gray-100 rounded-full text-gray-700 flex items-center gap-1"
+            >
+              {ticker}
+              <button
+                type="button"
+                onClick={() => onRemove(ticker)}
+                className="w-5 h-5 rounded-full hover:bg-gray-300 text-gray-500 leading-none"
+                title={`Remove ${ticker}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,17 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { DATE_RANGE_PRESETS, DateRangePreset } from '@/lib/types';
+import { resolveDateRangePreset } from '@/lib/statistics';
 
 interface DateRangeFilterProps {
   minDate: string;
   maxDate: string;
   startDate: string;
   endDate: string;
-  onRangeChange: (startDate: string, endDate: string) => void;
+  // preset is set when the range came from a quick range button
+  onRangeChange: (startDate: string, endDate: string, preset?: DateRangePreset) => void;
+  activePreset?: DateRangePreset | null;
   disabled?: boolean;
 }
 
@@ -17,6 +21,7 @@ export default function DateRangeFilter({
   startDate,
   endDate,
   onRangeChange,
+  activePreset = null,
   disabled = false,
 }: DateRangeFilterProps) {
   const [localStart, setLocalStart] = useState(startDate);
@@ -41,51 +46,15 @@ export default function DateRangeFilter({
     }
   };
 
-  const handleReset = () => {
-    setLocalStart(minDate);
-    setLocalEnd(maxDate);
-    onRangeChange(minDate, maxDate);
-  };
-
   // Quick range presets
-  const applyPreset = (months: number) => {
-    const end = new Date(maxDate);
-    const start = new Date(end);
-    start.setMonth(start.getMonth() - months);
-
-    const startStr = start.toISOString().split('T')[0];
-    const clampedStart = startStr < minDate ? minDate : startStr;
-
-    setLocalStart(clampedStart);
-    setLocalEnd(maxDate);
-    onRangeChange(clampedStart, maxDate);
+  const applyPreset = (preset: DateRangePreset) => {
+    const { start, end } = resolveDateRangePreset(preset, minDate, maxDate);
+    setLocalStart(start);
+    setLocalEnd(end);
+    onRangeChange(start, end, preset);
   };
 
-  const applyYearPreset = (years: number) => {
-    const end = new Date(maxDate);
-    const start = new Date(end);
-    start.setFullYear(start.getFullYear() - years);
-
-    const startStr = start.toISOString().split('T')[0];
-    const clampedStart = startStr < minDate ? minDate : startStr;
-
-    setLocalStart(clampedStart);
-    setLocalEnd(maxDate);
-    onRangeChange(clampedStart, maxDate);
-  };
-
-  // YTD preset
-  const applyYTD = () => {
-    const end = new Date(maxDate);
-    const start = new Date(end.getFullYear(), 0, 1);
-
-    const startStr = start.toISOString().split('T')[0];
-    const clampedStart = startStr < minDate ? minDate : startStr;
-
-    setLocalStart(clampedStart);
-    setLocalEnd(maxDate);
-    onRangeChange(clampedStart, maxDate);
-  };
+  const handleReset = () => applyPreset('Max');
 
   if (!minDate || !maxDate) {
     return null;
@@ -132,24 +101,18 @@ export default function DateRangeFilter({
 
         <div className="flex flex-wrap gap-2">
           <span className="text-sm text-gray-500 self-center">Quick:</span>
-          {[
-            { label: '1M', action: () => applyPreset(1) },
-            { label: '3M', action: () => applyPreset(3) },
-            { label: '6M', action: () => applyPreset(6) },
-            { label: 'YTD', action: applyYTD },
-            { label: '1Y', action: () => applyYearPreset(1) },
-            { label: '3Y', action: () => applyYearPreset(3) },
-            { label: '5Y', action: () => applyYearPreset(5) },
-            { label: '10Y', action: () => applyYearPreset(10) },
-            { label: 'Max', action: handleReset },
-          ].map((preset) => (
+          {DATE_RANGE_PRESETS.map((preset) => (
             <button
-              key={preset.label}
-              onClick={preset.action}
+              key={preset}
+              onClick={() => applyPreset(preset)}
               disabled={disabled}
-              className="px-2 py-1 text-xs bg-gray-100 hover:bg-blue-100 hover:text-blue-700 rounded transition-colors disabled:opacity-50"
+              className={`px-2 py-1 text-xs rounded transition-colors disabled:opacity-50 ${
+                preset === activePreset
+                  ? 'bg-blue-100 text-blue-700'
+                  : 'bg-gray-100 hover:bg-blue-100 hover:text-blue-700'
+              }`}
             >
-              {preset.label}
+              {preset}
             </button>
           ))}
         </div>
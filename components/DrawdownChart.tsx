@@ -12,9 +12,10 @@ import {
   ReferenceLine,
   Label,
 } from 'recharts';
-import { useMemo } from 'react';
+import { useMemo, useRef } from 'react';
 import { DrawdownDataPoint } from '@/lib/statistics';
 import DateAxisTick from './DateAxisTick';
+import ChartImageExport from './ChartImageExport';
 
 interface MultiDrawdownData {
   ticker: string;
@@ -32,6 +33,8 @@ interface DrawdownChartProps {
   tickCount?: number;
   resolvedTicks?: string[];
   multiData?: MultiDrawdownData[];
+  exportTitle?: string; // shows an image export control for this chart alone
+  dataSources?: string[]; // named in the image export footer
 }
 
 // Custom label for max drawdown point
@@ -107,8 +110,11 @@ export default function DrawdownChart({
   tickCount = 8,
   resolvedTicks,
   multiData,
+  exportTitle,
+  dataSources,
 }: DrawdownChartProps) {
   const isMulti = multiData && multiData.length > 0;
+  const chartRef = useRef<HTMLDivElement>(null);
 
   // Merge multi-ticker drawdown data into a single dataset
   const mergedMultiData = useMemo(() => {
@@ -161,117 +167,134 @@ export default function DrawdownChart({
   const xAxisHeight = (!isShortRange && !isLongRange) ? 35 : undefined;
 
   return (
-    <div className="h-44">
-      <ResponsiveContainer width="100%" height="100%">
-        <AreaChart
-          data={isMulti ? mergedMultiData : data}
-          margin={{ top: 5, right: 55, left: 0, bottom: 0 }}
-          syncId="stockChart"
-        >
-          <defs>
+    <div>
+      {exportTitle && (
+        <div className="flex items-center gap-2 mt-2 mb-1 ml-1">
+          <span className="text-xs text-gray-500">Drawdown</span>
+          <div className="ml-auto">
+            <ChartImageExport
+              targetRef={chartRef}
+              sources={dataSources}
+              fileName={`${exportTitle}_drawdown`}
+              title={`${exportTitle} Drawdown`}
+              legend={isMulti ? multiData!.map(td => ({ label: td.ticker, color: td.color })) : []}
+              compact
+            />
+          </div>
+        </div>
+      )}
+      <div ref={chartRef} className="h-44">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart
+            data={isMulti ? mergedMultiData : data}
+            margin={{ top: 5, right: 55, left: 0, bottom: 0 }}
+            syncId="stockChart"
+          >
+            <defs>
+              {isMulti ? (
+                multiData!.map((td) => (
+                  <linearGradient key={`dd-gradient-${td.ticker}`} id={`dd-gradient-${td.ticker}`} x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor={td.color} stopOpacity={0.2} />
+                    <stop offset="95%" stopColor={td.color} stopOpacity={0} />
+                  </linearGradient>
+                ))
+              ) : (
+                <linearGradient id="drawdownGradient" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#000000" stopOpacity={0.4} />
+                  <stop offset="95%" stopColor="#000000" stopOpacity={0.1} />
+                </linearGradient>
+              )}
+            </defs>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis
+              dataKey="date"
+              tick={(props) => <DateAxisTick {...props} isShortRange={isShortRange} isLongRange={isLongRange} />}
+              ticks={resolvedTicks}
+              tickCount={resolvedTicks ? undefined : tickCount}
+              height={xAxisHeight}
+            />
+            <YAxis
+              tick={{ fontSize: 10, fill: '#6b7280' }}
+              tickFormatter={(value) => `${value.toFixed(0)}%`}
+              domain={['auto', 0]}
+              allowDataOverflow={false}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: 'white',
+                border: '1px solid #e5e7eb',
+                borderRadius: '8px',
+                boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+                fontSize: '12px',
+              }}
+              labelFormatter={(date) => new Date(date).toLocaleDateString()}
+              formatter={(value: number, name: string) => {
+                const label = isMulti ? name.replace('dd_', '') : 'Drawdown';
+                return [`${value.toFixed(2)}%`, label];
+              }}
+            />
+
+            {/* Zero reference line */}
+            <ReferenceLine y={0} stroke="#9ca3af" strokeWidth={1} />
+
             {isMulti ? (
               multiData!.map((td) => (
-                <linearGradient key={`dd-gradient-${td.ticker}`} id={`dd-gradient-${td.ticker}`} x1="0" y1="0" x2="0" y2="1">
-                  <stop offset="5%" stopColor={td.color} stopOpacity={0.2} />
-                  <stop offset="95%" stopColor={td.color} stopOpacity={0} />
-                </linearGradient>
+                <Area
+                  key={td.ticker}
+                  type="monotone"
+                  dataKey={`dd_${td.ticker}`}
+                  stroke={td.color}
+                  fill={`url(#dd-gradient-${td.ticker})`}
+                  strokeWidth={1.5}
+                  dot={false}
+                  activeDot={{ r: 3, fill: td.color }}
+                />
               ))
             ) : (
-              <linearGradient id="drawdownGradient" x1="0" y1="0" x2="0" y2="1">
-                <stop offset="5%" stopColor="#000000" stopOpacity={0.4} />
-                <stop offset="95%" stopColor="#000000" stopOpacity={0.1} />
-              </linearGradient>
-            )}
-          </defs>
-          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
-          <XAxis
-            dataKey="date"
-            tick={(props) => <DateAxisTick {...props} isShortRange={isShortRange} isLongRange={isLongRange} />}
-            ticks={resolvedTicks}
-            tickCount={resolvedTicks ? undefined : tickCount}
-            height={xAxisHeight}
-          />
-          <YAxis
-            tick={{ fontSize: 10, fill: '#6b7280' }}
-            tickFormatter={(value) => `${value.toFixed(0)}%`}
-            domain={['auto', 0]}
-            allowDataOverflow={false}
-          />
-          <Tooltip
-            contentStyle={{
-              backgroundColor: 'white',
-              border: '1px solid #e5e7eb',
-              borderRadius: '8px',
-              boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
-              fontSize: '12px',
-            }}
-            labelFormatter={(date) => new Date(date).toLocaleDateString()}
-            formatter={(value: number, name: string) => {
-              const label = isMulti ? name.replace('dd_', '') : 'Drawdown';
-              return [`${value.toFixed(2)}%`, label];
-            }}
-          />
-
-          {/* Zero reference line */}
-          <ReferenceLine y={0} stroke="#9ca3af" strokeWidth={1} />
-
-          {isMulti ? (
-            multiData!.map((td) => (
-              <Area
-                key={td.ticker}
-                type="monotone"
-                dataKey={`dd_${td.ticker}`}
-                stroke={td.color}
-                fill={`url(#dd-gradient-${td.ticker})`}
-                strokeWidth={1.5}
-                dot={false}
-                activeDot={{ r: 3, fill: td.color }}
-              />
-            ))
-          ) : (
-            <>
-              <Area
-                type="monotone"
-                dataKey="drawdown"
-                stroke="#000000"
-                fill="url(#drawdownGradient)"
-                strokeWidth={1.5}
-                dot={false}
-                activeDot={{ r: 3, fill: '#000000' }}
-              />
-
-              {/* Max drawdown marker with label */}
-              <ReferenceDot
-                x={maxDrawdownDate}
-                y={-maxDrawdown}
-                r={4}
-                fill="#000000"
-                stroke="white"
-                strokeWidth={2}
-              >
-                <Label
-                  content={
-                    <DrawdownLabel value={formatDrawdown(-maxDrawdown)} />
-                  }
+              <>
+                <Area
+                  type="monotone"
+                  dataKey="drawdown"
+                  stroke="#000000"
+                  fill="url(#drawdownGradient)"
+                  strokeWidth={1.5}
+                  dot={false}
+                  activeDot={{ r: 3, fill: '#000000' }}
                 />
-              </ReferenceDot>
 
-              {/* Current drawdown bubble at the end */}
-              <ReferenceDot
-                x={lastDate!}
-                y={lastDrawdown}
-                r={0}
-              >
-                <Label
-                  content={
-                    <CurrentDrawdownBubble value={formatDrawdown(lastDrawdown)} />
-                  }
-                />
-              </ReferenceDot>
-            </>
-          )}
-        </AreaChart>
-      </ResponsiveContainer>
+                {/* Max drawdown marker with label */}
+                <ReferenceDot
+                  x={maxDrawdownDate}
+                  y={-maxDrawdown}
+                  r={4}
+                  fill="#000000"
+                  stroke="white"
+                  strokeWidth={2}
+                >
+                  <Label
+                    content={
+                      <DrawdownLabel value={formatDrawdown(-maxDrawdown)} />
+                    }
+                  />
+                </ReferenceDot>
+
+                {/* Current drawdown bubble at the end */}
+                <ReferenceDot
+                  x={lastDate!}
+                  y={lastDrawdown}
+                  r={0}
+                >
+                  <Label
+                    content={
+                      <CurrentDrawdownBubble value={formatDrawdown(lastDrawdown)} />
+                    }
+                  />
+                </ReferenceDot>
+              </>
+            )}
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,73 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import {
+  buildExportFile,
+  downloadBlob,
+  EXPORT_FORMATS,
+  ExportFormat,
+  ExportMetadata,
+  ExportPayload,
+  safeFileName,
+} from '@/lib/export';
+
+interface ExportMenuProps {
+  fileName: string;             // without extension; the date range is appended
+  metadata: ExportMetadata;
+  build: () => ExportPayload;   // called on demand, so idle sections do no export work
+}
+
+export default function ExportMenu({ fileName, metadata, build }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen]);
+
+  const handleExport = (format: ExportFormat) => {
+    setIsOpen(false);
+    try {
+      const file = buildExportFile(format, metadata, build());
+      downloadBlob(
+        new Blob([file.content], { type: file.mimeType }),
+        `${safeFileName(`${fileName}_${metadata.startDate}_${metadata.endDate}`)}.${file.extension}`
+      );
+    } catch (err) {
+      console.error('Export error:', err);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-sm px-3 py-1 border border-gray-300 rounded hover:bg-gray-100 text-gray-700 transition-colors"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        Export ▾
+      </button>
+      {isOpen && (
+        <div role="menu" className="absolute right-0 mt-1 w-36 bg-white border border-gray-200 rounded shadow-lg z-20 py-1">
+          {EXPORT_FORMATS.map((f) => (
+            <button
+              key={f.value}
+              role="menuitem"
+              onClick={() => handleExport(f.value)}
+              className="block w-full text-left text-sm px-3 py-1 text-gray-700 hover:bg-blue-50 hover:text-blue-700"
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
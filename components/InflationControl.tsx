@@ -0,0 +1,118 @@
+'use client';
+
+import { useState, ChangeEvent, FormEvent } from 'react';
+import { CpiSeriesKind, Deflator, TickerData } from '@/lib/types';
+import { DEFAULT_CPI_TICKER, getDeflatorBaseMonth } from '@/lib/inflation';
+import { parseUploadedFile, UploadParseError } from '@/lib/upload';
+
+interface InflationControlProps {
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+  deflator: Deflator | null;
+  onLoadTicker: (ticker: string, kind: CpiSeriesKind) => void;
+  onUpload: (tickerData: TickerData, kind: CpiSeriesKind) => void;
+  isLoading: boolean;
+  error: string | null;
+}
+
+const KIND_OPTIONS: { value: CpiSeriesKind; label: string }[] = [
+  { value: 'mom', label: 'Month-on-month change' },
+  { value: 'index', label: 'Index level' },
+];
+
+export default function InflationControl({
+  enabled,
+  onToggle,
+  deflator,
+  onLoadTicker,
+  onUpload,
+  isLoading,
+  error,
+}: InflationControlProps) {
+  const [cpiTicker, setCpiTicker] = useState(DEFAULT_CPI_TICKER);
+  const [kind, setKind] = useState<CpiSeriesKind>('mom');
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (cpiTicker.trim().length > 0) {
+      setUploadError(null);
+      onLoadTicker(cpiTicker.trim(), kind);
+    }
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const symbol = file.name.replace(/\.[^.]+$/, '');
+      onUpload(parseUploadedFile(await file.text(), file.name, symbol), kind);
+      setUploadError(null);
+    } catch (err) {
+      console.error('CPI upload error:', err);
+      setUploadError(err instanceof UploadParseError ? err.message : `Could not read ${file.name}`);
+    }
+    e.target.value = '';
+  };
+
+  const shownError = uploadError || error;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 mb-4">
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <input
+            type="checkbox"
+            checked={enabled && deflator !== null}
+            onChange={(e) => onToggle(e.target.checked)}
+            disabled={deflator === null}
+            className="rounded"
+          />
+          Real terms
+        </label>
+        <input
+          type="text"
+          value={cpiTicker}
+          onChange={(e) => setCpiTicker(e.target.value)}
+          placeholder="CPI ticker"
+          className="w-36 text-sm px-3 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          disabled={isLoading}
+        />
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as CpiSeriesKind)}
+          disabled={isLoading}
+          className="text-sm border border-gray-300 rounded px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {KIND_OPTIONS.map((opt) => (
+            <option key={opt.value} value={opt.value}>{opt.label}</option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={isLoading || cpiTicker.trim().length === 0}
+          className="text-sm px-4 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium"
+        >
+          {isLoading ? 'Loading...' : 'Load CPI'}
+        </button>
+        <span className="text-sm text-gray-500">or</span>
+        <input
+          type="file"
+          accept=".csv,.json,.txt"
+          onChange={handleFileChange}
+          disabled={isLoading}
+          className="text-sm text-gray-700 file:mr-3 file:px-3 file:py-1 file:rounded file:border-0 file:bg-gray-100 file:text-gray-700 hover:file:bg-gray-200"
+        />
+      </form>
+
+      {deflator && (
+        <p className="mt-2 text-xs text-gray-500">
+          Deflator: <span className="font-semibold text-gray-700">{deflator.label}</span>,{' '}
+          {deflator.index[0].month} to {getDeflatorBaseMonth(deflator)} ({deflator.index.length} months)
+        </p>
+      )}
+      {shownError && <p className="mt-2 text-sm text-red-600">{shownError}</p>}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useMemo, useRef } from 'react';
 import {
   ComposedChart,
   Area,
@@ -15,17 +15,21 @@ import {
   Legend,
   Label,
 } from 'recharts';
-import { ChartDataPoint, TickerData } from '@/lib/types';
+import { ChartDataPoint, TickerData, PriceChartSettings } from '@/lib/types';
 import { findExtremes, calculateDrawdownSeries, calculateSMA, calculateSMADistance } from '@/lib/statistics';
 import DrawdownChart from './DrawdownChart';
 import SMADistanceChart from './SMADistanceChart';
 import DateAxisTick, { computeEvenTicks } from './DateAxisTick';
+import ChartImageExport from './ChartImageExport';
 
 interface PriceChartProps {
   data: ChartDataPoint[];
   tickers: string[];
   tickersData: TickerData[];
   rawTickersData: TickerData[];
+  settings: PriceChartSettings;
+  onSettingsChange: (settings: PriceChartSettings) => void;
+  dataSources?: string[]; // named in the image export footer
 }
 
 const COLORS = [
@@ -113,10 +117,18 @@ function EndBubbles({
   );
 }
 
-export default function PriceChart({ data, tickers, tickersData, rawTickersData }: PriceChartProps) {
-  const [show50SMA, setShow50SMA] = useState(false);
-  const [show200SMA, setShow200SMA] = useState(false);
-  const [distanceSMAPeriod, setDistanceSMAPeriod] = useState<50 | 200>(200);
+export default function PriceChart({
+  data,
+  tickers,
+  tickersData,
+  rawTickersData,
+  settings,
+  onSettingsChange,
+  dataSources,
+}: PriceChartProps) {
+  const { show50SMA, show200SMA, distanceSMAPeriod } = settings;
+  // Image export stacks every chart in the card (price, drawdown, SMA distance)
+  const chartsRef = useRef<HTMLDivElement>(null);
 
   const isSingleTicker = tickers.length === 1;
   const primaryTicker = tickers[0];
@@ -293,17 +305,28 @@ export default function PriceChart({ data, tickers, tickersData, rawTickersData
     (!isSingleTicker && multiDrawdownData && multiDrawdownData.length > 0);
   const showPriceChartXAxis = !hasDrawdown;
 
+  const title = isSingleTicker ? `${primaryTicker} Price & Drawdown` : 'Normalized Comparison (Base = 100)';
+  const dateRangeLabel = data.length > 0 ? `${data[0].date} to ${data[data.length - 1].date}` : undefined;
+  // Multi-ticker legend is read from the rendered Recharts <Legend>
+  const imageLegend = isSingleTicker
+    ? [
+        { label: primaryTicker, color: COLORS[0] },
+        ...(show50SMA ? [{ label: '50 SMA', color: '#dc2626' }] : []),
+        ...(show200SMA ? [{ label: '200 SMA', color: '#eab308' }] : []),
+        ...(hasDrawdown ? [{ label: 'Drawdown', color: '#000000' }] : []),
+        ...(smaDistanceData.length > 0 ? [{ label: `Distance from ${distanceSMAPeriod} SMA`, color: '#16a34a' }] : []),
+      ]
+    : undefined;
+
   return (
-    <div className="bg-white rounded-lg shadow-md p-4">
+    <div ref={chartsRef} className="bg-white rounded-lg shadow-md p-4">
       <div className="mb-4">
         <div className="flex flex-wrap items-center gap-2">
-          <h2 className="text-lg font-semibold text-gray-800">
-            {isSingleTicker ? `${primaryTicker} Price & Drawdown` : 'Normalized Comparison (Base = 100)'}
-          </h2>
+          <h2 className="text-lg font-semibold text-gray-800">{title}</h2>
           {isSingleTicker && (
             <div className="flex gap-1 ml-2">
               <button
-                onClick={() => setShow50SMA(!show50SMA)}
+                onClick={() => onSettingsChange({ ...settings, show50SMA: !show50SMA })}
                 className={`px-2 py-0.5 text-xs rounded transition-colors ${
                   show50SMA
                     ? 'bg-red-100 text-red-700 border border-red-300'
@@ -313,7 +336,7 @@ export default function PriceChart({ data, tickers, tickersData, rawTickersData
                 50SMA
               </button>
               <button
-                onClick={() => setShow200SMA(!show200SMA)}
+                onClick={() => onSettingsChange({ ...settings, show200SMA: !show200SMA })}
                 className={`px-2 py-0.5 text-xs rounded transition-colors ${
                   show200SMA
                     ? 'bg-yellow-100 text-yellow-700 border border-yellow-300'
@@ -324,6 +347,16 @@ export default function PriceChart({ data, tickers, tickersData, rawTickersData
               </button>
             </div>
           )}
+          <div className="ml-auto">
+            <ChartImageExport
+              targetRef={chartsRef}
+              sources={dataSources}
+              fileName={`${isSingleTicker ? primaryTicker : tickers.join('_')}_price`}
+              title={title}
+              subtitle={dateRangeLabel}
+              legend={imageLegend}
+            />
+          </div>
         </div>
         {!isSingleTicker && (
           <p className="text-sm text-gray-500">All series normalized to 100 at common start date</p>
@@ -523,6 +556,8 @@ export default function PriceChart({ data, tickers, tickersData, rawTickersData
           isLongRange={isLongRange}
           tickCount={tickCount}
           resolvedTicks={resolvedTicks}
+          exportTitle={primaryTicker}
+          dataSources={dataSources}
         />
       )}
 
@@ -538,6 +573,8 @@ export default function PriceChart({ data, tickers, tickersData, rawTickersData
           tickCount={tickCount}
           resolvedTicks={resolvedTicks}
           multiData={multiDrawdownData}
+          exportTitle={tickers.join(', ')}
+          dataSources={dataSources}
         />
       )}
 
@@ -550,7 +587,11 @@ export default function PriceChart({ data, tickers, tickersData, rawTickersData
           tickCount={tickCount}
           resolvedTicks={resolvedTicks}
           smaPeriod={distanceSMAPeriod}
-          onTogglePeriod={() => setDistanceSMAPeriod(p => p === 200 ? 50 : 200)}
+          exportTitle={primaryTicker}
+          dataSources={dataSources}
+          onTogglePeriod={() =>
+            onSettingsChange({ ...settings, distanceSMAPeriod: distanceSMAPeriod === 200 ? 50 : 200 })
+          }
         />
       )}
     </div>
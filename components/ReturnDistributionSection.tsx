@@ -0,0 +1,262 @@
+'use client';
+
+import { useState, useMemo, useRef } from 'react';
+import {
+  ComposedChart,
+  ScatterChart,
+  Scatter,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { DistributionFrequency, StooqDataPoint } from '@/lib/types';
+import { calculateReturnDistribution, DistributionBin, QQPoint } from '@/lib/statistics';
+import { ExportMetadata, returnDistributionExport, withParameters } from '@/lib/export';
+import ExportMenu from './ExportMenu';
+import ChartImageExport from './ChartImageExport';
+
+interface ReturnDistributionSectionProps {
+  data: StooqDataPoint[];
+  ticker: string;
+  exportMetadata?: ExportMetadata;
+  dataSources?: string[]; // named in the image export footer
+}
+
+const FREQUENCY_OPTIONS: { value: DistributionFrequency; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+// Jarque-Bera p-value below which normality is rejected
+const SIGNIFICANCE_LEVEL = 0.05;
+
+function HistogramTooltip({ active, payload }: {
+  active?: boolean;
+  payload?: { payload: DistributionBin }[];
+}) {
+  if (!active || !payload || payload.length === 0) return null;
+  const bin = payload[0].payload;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg shadow-md px-3 py-2 text-xs">
+      <div className="font-semibold text-gray-800">
+        {bin.start.toFixed(2)}% to {bin.end.toFixed(2)}%
+      </div>
+      <div className="text-gray-600">Observed: {bin.count}</div>
+      <div className="text-red-600">Normal: {bin.normalCount.toFixed(1)}</div>
+    </div>
+  );
+}
+
+function QQTooltip({ active, payload }: {
+  active?: boolean;
+  payload?: { payload: QQPoint }[];
+}) {
+  if (!active || !payload || payload.length === 0) return null;
+  const point = payload[0].payload;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg shadow-md px-3 py-2 text-xs">
+      <div className="text-gray-600">Normal quantile: {point.theoretical.toFixed(2)}σ</div>
+      <div className="text-blue-600">Return: {point.sample.toFixed(2)}σ</div>
+    </div>
+  );
+}
+
+function StatCell({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="text-sm font-semibold text-gray-800">{value}</div>
+    </div>
+  );
+}
+
+export default function ReturnDistributionSection({
+  data,
+  ticker,
+  exportMetadata,
+  dataSources,
+}: ReturnDistributionSectionProps) {
+  const [frequency, setFrequency] = useState<DistributionFrequency>('daily');
+  const chartsRef = useRef<HTMLDivElement>(null);
+
+  const distribution = useMemo(() => calculateReturnDistribution(data, frequency), [data, frequency]);
+
+  if (data.length < 2) return null;
+
+  const frequencyLabel = FREQUENCY_OPTIONS.find((o) => o.value === frequency)?.label;
+  const qqLimit = distribution
+    ? Math.ceil(Math.max(...distribution.qq.map((p) => Math.max(Math.abs(p.theoretical), Math.abs(p.sample)))))
+    : 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 mt-4">
+      {/* Header */}
+      <div className="mb-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <h2 className="text-lg font-semibold text-gray-800">{ticker} Return Distribution</h2>
+          <div className="flex gap-1">
+            {FREQUENCY_OPTIONS.map((opt) => (
+              <button
+                key={opt.value}
+                onClick={frequency !== opt.value ? () => setFrequency(opt.value) : undefined}
+                className={`px-2 py-0.5 text-xs rounded transition-colors ${
+                  frequency === opt.value
+                    ? 'bg-gray-800 text-white'
+                    : 'bg-gray-100 text-gray-500 border border-gray-200 hover:bg-gray-200'
+                }`}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+          {distribution && (
+            <div className="ml-auto flex gap-2">
+              <ChartImageExport
+                targetRef={chartsRef}
+                sources={dataSources}
+                fileName={`${ticker}_${frequency}_return_distribution`}
+                title={`${ticker} ${frequencyLabel} Return Distribution`}
+                subtitle={`${distribution.observations} returns, ${data[0].date} to ${data[data.length - 1].date}`}
+                legend={[
+                  { label: 'Observed', color: '#94a3b8' },
+                  { label: 'Normal fit', color: '#dc2626' },
+                  { label: 'QQ points', color: '#2563eb' },
+                ]}
+              />
+              {exportMetadata && (
+                <ExportMenu
+                  fileName={`${ticker}_${frequency}_return_distribution`}
+                  metadata={withParameters(exportMetadata, { ticker, returns: frequency })}
+                  build={() => returnDistributionExport(distribution)}
+                />
+              )}
+            </div>
+          )}
+        </div>
+        <p className="text-sm text-gray-500 mt-1">
+          {frequencyLabel} returns against a normal distribution with the same mean and standard deviation.
+        </p>
+      </div>
+
+      {!distribution ? (
+        <p className="text-sm text-gray-500">Not enough {frequency} returns in the selected range.</p>
+      ) : (
+        <>
+          {/* Summary statistics */}
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4 mb-4">
+            <StatCell label="Mean" value={`${distribution.moments.mean.toFixed(2)}%`} />
+            <StatCell label="Std Dev" value={`${distribution.moments.std.toFixed(2)}%`} />
+            <StatCell label="Skewness" value={distribution.moments.skewness.toFixed(2)} />
+            <StatCell label="Excess Kurtosis" value={distribution.moments.excessKurtosis.toFixed(2)} />
+            <StatCell label="Jarque-Bera" value={distribution.jarqueBera.toFixed(1)} />
+            <StatCell
+              label="JB p-value"
+              value={`${distribution.jarqueBeraPValue < 0.001 ? '<0.001' : distribution.jarqueBeraPValue.toFixed(3)} (${
+                distribution.jarqueBeraPValue < SIGNIFICANCE_LEVEL ? 'not normal' : 'normal not rejected'
+              })`}
+            />
+          </div>
+
+          {/* Charts */}
+          <div ref={chartsRef} className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <div className="h-72 lg:col-span-2">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart
+                  data={distribution.histogram}
+                  margin={{ top: 10, right: 20, left: -15, bottom: 0 }}
+                  barCategoryGap={1}
+                >
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis
+                    dataKey="mid"
+                    type="number"
+                    domain={[distribution.histogram[0].start, distribution.histogram[distribution.histogram.length - 1].end]}
+                    tick={{ fontSize: 11, fill: '#6b7280' }}
+                    tickFormatter={(value) => `${value.toFixed(1)}%`}
+                    tickCount={9}
+                    axisLine={false}
+                    tickLine={false}
+                  />
+                  <YAxis tick={{ fontSize: 10, fill: '#6b7280' }} allowDecimals={false} />
+                  <Tooltip content={<HistogramTooltip />} />
+                  <Bar dataKey="count" fill="#94a3b8" isAnimationActive={false} name="Observed" />
+                  <Line
+                    type="monotone"
+                    dataKey="normalCount"
+                    stroke="#dc2626"
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                    name="Normal fit"
+                  />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <ScatterChart margin={{ top: 10, right: 20, left: -15, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis
+                    dataKey="theoretical"
+                    type="number"
+                    domain={[-qqLimit, qqLimit]}
+                    tick={{ fontSize: 11, fill: '#6b7280' }}
+                    tickFormatter={(value) => `${value}σ`}
+                    axisLine={false}
+                    tickLine={false}
+                  />
+                  <YAxis
+                    dataKey="sample"
+                    type="number"
+                    domain={[-qqLimit, qqLimit]}
+                    tick={{ fontSize: 10, fill: '#6b7280' }}
+                    tickFormatter={(value) => `${value}σ`}
+                  />
+                  <Tooltip content={<QQTooltip />} />
+                  <ReferenceLine
+                    segment={[{ x: -qqLimit, y: -qqLimit }, { x: qqLimit, y: qqLimit }]}
+                    stroke="#dc2626"
+                    strokeDasharray="6 4"
+                  />
+                  <Scatter data={distribution.qq} fill="#2563eb" isAnimationActive={false} shape="circle" />
+                </ScatterChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          {/* Tail moves */}
+          <table className="text-sm mt-4">
+            <thead>
+              <tr className="text-gray-500 text-xs">
+                <th className="text-left font-normal pr-6 py-1">Move</th>
+                <th className="text-right font-normal pr-6 py-1">Down</th>
+                <th className="text-right font-normal pr-6 py-1">Up</th>
+                <th className="text-right font-normal pr-6 py-1">Total</th>
+                <th className="text-right font-normal py-1">Normal expects</th>
+              </tr>
+            </thead>
+            <tbody>
+              {distribution.sigmaMoves.map((m) => (
+                <tr key={m.sigma} className="border-t border-gray-100">
+                  <td className="text-gray-700 pr-6 py-1">Beyond {m.sigma}σ</td>
+                  <td className="text-right text-red-600 pr-6 py-1">{m.down}</td>
+                  <td className="text-right text-green-600 pr-6 py-1">{m.up}</td>
+                  <td className="text-right font-semibold text-gray-800 pr-6 py-1">{m.down + m.up}</td>
+                  <td className="text-right text-gray-600 py-1">{m.expected.toFixed(1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,13 @@
 'use client';
 
 import { YearlyData, ReturnCalcDetail } from '@/lib/statistics';
+import { ExportMetadata, returnsTableExport, withParameters } from '@/lib/export';
+import ExportMenu from './ExportMenu';
 
 interface ReturnsTableProps {
   data: YearlyData[];
   ticker: string;
+  exportMetadata?: ExportMetadata;
 }
 
 const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
@@ -82,7 +85,7 @@ function ReturnCell({
   );
 }
 
-export default function ReturnsTable({ data, ticker }: ReturnsTableProps) {
+export default function ReturnsTable({ data, ticker, exportMetadata }: ReturnsTableProps) {
   if (data.length === 0) {
     return null;
   }
@@ -92,9 +95,18 @@ export default function ReturnsTable({ data, ticker }: ReturnsTableProps) {
 
   return (
     <div className="bg-white rounded-lg shadow-md p-4 mt-4">
-      <h2 className="text-lg font-semibold text-gray-800 mb-4">
-        {ticker} Monthly Returns
-      </h2>
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h2 className="text-lg font-semibold text-gray-800">
+          {ticker} Monthly Returns
+        </h2>
+        {exportMetadata && (
+          <ExportMenu
+            fileName={`${ticker}_monthly_returns`}
+            metadata={withParameters(exportMetadata, { ticker })}
+            build={() => returnsTableExport(data)}
+          />
+        )}
+      </div>
 
       <div className="overflow-x-auto overflow-y-visible">
         <table className="w-full text-xs border-collapse">
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useMemo, useRef } from 'react';
 import {
   LineChart,
   Line,
@@ -15,10 +15,17 @@ import {
 } from 'recharts';
 import { StooqDataPoint } from '@/lib/types';
 import { calculateRollingReturns } from '@/lib/statistics';
+import { ExportMetadata, rollingReturnsExport, withParameters } from '@/lib/export';
+import ExportMenu from './ExportMenu';
+import ChartImageExport from './ChartImageExport';
 
 interface RollingReturnsChartProps {
   data: StooqDataPoint[];
   ticker: string;
+  rollingYears: number;
+  onRollingYearsChange: (years: number) => void;
+  exportMetadata?: ExportMetadata;
+  dataSources?: string[]; // named in the image export footer
 }
 
 const ROLLING_YEAR_OPTIONS = Array.from({ length: 10 }, (_, i) => i + 1);
@@ -63,9 +70,15 @@ function RollingReturnTooltip({ active, payload, rollingYears }: any) {
   );
 }
 
-export default function RollingReturnsChart({ data, ticker }: RollingReturnsChartProps) {
-  const [rollingYears, setRollingYears] = useState(3);
-
+export default function RollingReturnsChart({
+  data,
+  ticker,
+  rollingYears,
+  onRollingYearsChange,
+  exportMetadata,
+  dataSources,
+}: RollingReturnsChartProps) {
+  const chartRef = useRef<HTMLDivElement>(null);
   const rollingData = useMemo(() => {
     return calculateRollingReturns(data, rollingYears);
   }, [data, rollingYears]);
@@ -116,6 +129,28 @@ export default function RollingReturnsChart({ data, ticker }: RollingReturnsChar
           <h2 className="text-lg font-semibold text-gray-800">
             {ticker} Rolling {rollingYears}Y Returns (CAGR)
           </h2>
+          <div className="ml-auto flex gap-2">
+            <ChartImageExport
+              targetRef={chartRef}
+              sources={dataSources}
+              fileName={`${ticker}_rolling_${rollingYears}y`}
+              title={`${ticker} Rolling ${rollingYears}Y Returns (CAGR)`}
+              subtitle={`Annualized return over rolling ${rollingYears}-year windows, ${firstDate} to ${lastDate}`}
+              legend={[
+                { label: `Rolling ${rollingYears}Y CAGR`, color: '#2563eb' },
+                { label: 'Max', color: '#16a34a' },
+                { label: 'Average', color: '#f59e0b' },
+                { label: 'Min', color: '#dc2626' },
+              ]}
+            />
+            {exportMetadata && (
+              <ExportMenu
+                fileName={`${ticker}_rolling_${rollingYears}y`}
+                metadata={withParameters(exportMetadata, { ticker, rollingYears })}
+                build={() => rollingReturnsExport(rollingData)}
+              />
+            )}
+          </div>
         </div>
         <p className="text-sm text-gray-500 mt-1">
           Annualized return over rolling {rollingYears}-year windows.
@@ -128,7 +163,7 @@ export default function RollingReturnsChart({ data, ticker }: RollingReturnsChar
           <label className="text-sm text-gray-600">Rolling Years:</label>
           <select
             value={rollingYears}
-            onChange={(e) => setRollingYears(parseInt(e.target.value))}
+            onChange={(e) => onRollingYearsChange(parseInt(e.target.value))}
             className="text-sm border border-gray-300 rounded px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
           >
             {ROLLING_YEAR_OPTIONS.map((y) => (
@@ -141,7 +176,7 @@ export default function RollingReturnsChart({ data, ticker }: RollingReturnsChar
       </div>
 
       {/* Chart */}
-      <div className="h-72">
+      <div ref={chartRef} className="h-72">
         <ResponsiveContainer width="100%" height="100%">
           <LineChart
             data={rollingData}
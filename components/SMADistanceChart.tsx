@@ -1,5 +1,6 @@
 'use client';
 
+import { useRef } from 'react';
 import {
   AreaChart,
   Area,
@@ -14,6 +15,7 @@ import {
 } from 'recharts';
 import { SMADistancePoint } from '@/lib/statistics';
 import DateAxisTick from './DateAxisTick';
+import ChartImageExport from './ChartImageExport';
 
 interface SMADistanceChartProps {
   data: SMADistancePoint[];
@@ -23,6 +25,8 @@ interface SMADistanceChartProps {
   resolvedTicks?: string[];
   smaPeriod: 50 | 200;
   onTogglePeriod: () => void;
+  exportTitle?: string; // shows an image export control for this chart
+  dataSources?: string[]; // named in the image export footer
 }
 
 // Label for extreme points (positioned to the left of the dot)
@@ -98,7 +102,11 @@ export default function SMADistanceChart({
   resolvedTicks,
   smaPeriod,
   onTogglePeriod,
+  exportTitle,
+  dataSources,
 }: SMADistanceChartProps) {
+  const chartRef = useRef<HTMLDivElement>(null);
+
   if (data.length === 0) return null;
 
   // Find extremes
@@ -171,9 +179,21 @@ export default function SMADistanceChart({
             200 SMA
           </button>
         </div>
+        {exportTitle && (
+          <div className="ml-auto">
+            <ChartImageExport
+              targetRef={chartRef}
+              sources={dataSources}
+              fileName={`${exportTitle}_sma${smaPeriod}_distance`}
+              title={`${exportTitle} Distance from ${smaPeriod} SMA`}
+              legend={[]}
+              compact
+            />
+          </div>
+        )}
       </div>
 
-      <div className="h-36">
+      <div ref={chartRef} className="h-36">
         <ResponsiveContainer width="100%" height="100%">
           <AreaChart
             data={data}
@@ -1,7 +1,10 @@
 'use client';
 
 import { useState } from 'react';
-import { Statistics } from '@/lib/types';
+import { BenchmarkStatistics, Statistics, ValueAtRiskReport, VarHorizon, VAR_HORIZONS, VAR_METHODS } from '@/lib/types';
+import { VAR_METHOD_LABELS } from '@/lib/risk';
+import { ExportMetadata, statisticsExport } from '@/lib/export';
+import ExportMenu from './ExportMenu';
 
 // Format days into years and months (e.g., "2y", "1y 3m", "1m")
 function formatDaysToYearsMonths(days: number): string {
@@ -22,6 +25,10 @@ function formatDaysToYearsMonths(days: number): string {
 interface StatsPanelProps {
   statistics: Statistics[];
   isLoading: boolean;
+  valueLabel?: string; // shown under each ticker, e.g. when prices are inflation-adjusted
+  benchmarkStatistics?: BenchmarkStatistics[];
+  valueAtRisk?: ValueAtRiskReport[];
+  exportMetadata?: ExportMetadata;
 }
 
 interface CollapsibleSectionProps {
@@ -86,7 +93,101 @@ function formatDate(dateStr: string): string {
   return dateStr;
 }
 
-export default function StatsPanel({ statistics, isLoading }: StatsPanelProps) {
+// Benchmark-relative statistics of one ticker
+function BenchmarkSection({ relative }: { relative: BenchmarkStatistics }) {
+  return (
+    <CollapsibleSection title={`VS ${relative.benchmark}`}>
+      <StatRow label="Beta" value={formatNumber(relative.beta)} />
+      <StatRow
+        label="Alpha (Jensen)"
+        value={formatPercent(relative.alpha)}
+        isPositive={relative.alpha > 0}
+        isNegative={relative.alpha < 0}
+      />
+      <StatRow label="Correlation" value={formatNumber(relative.correlation)} />
+      <StatRow label="R²" value={formatNumber(relative.rSquared)} />
+      <StatRow label="Tracking Error" value={`${formatNumber(relative.trackingError)}%`} />
+      <StatRow
+        label="Information Ratio"
+        value={formatNumber(relative.informationRatio)}
+        isPositive={relative.informationRatio > 0}
+        isNegative={relative.informationRatio < 0}
+      />
+      <StatRow
+        label="Up Capture"
+        value={relative.upCapture !== null ? `${formatNumber(relative.upCapture, 1)}%` : 'n/a'}
+      />
+      <StatRow
+        label="Down Capture"
+        value={relative.downCapture !== null ? `${formatNumber(relative.downCapture, 1)}%` : 'n/a'}
+      />
+      <StatRow label="Returns" value={`${relative.observations} ${relative.frequency}`} />
+    </CollapsibleSection>
+  );
+}
+
+// VaR and CVaR of one ticker by method and confidence, for the selected horizon
+function ValueAtRiskSection({ report }: { report: ValueAtRiskReport }) {
+  const [horizon, setHorizon] = useState<VarHorizon>('1d');
+  const estimates = report.estimates.filter((e) => e.horizon === horizon);
+
+  return (
+    <CollapsibleSection title="VALUE AT RISK">
+      <div className="flex gap-1 mb-2">
+        {VAR_HORIZONS.map((h) => (
+          <button
+            key={h}
+            onClick={horizon !== h ? () => setHorizon(h) : undefined}
+            className={`px-2 py-0.5 text-xs rounded transition-colors ${
+              horizon === h
+                ? 'bg-gray-800 text-white'
+                : 'bg-gray-100 text-gray-500 border border-gray-200 hover:bg-gray-200'
+            }`}
+          >
+            {h.toUpperCase()}
+          </button>
+        ))}
+      </div>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="text-left font-normal py-0.5">Method</th>
+            <th className="text-right font-normal py-0.5">VaR</th>
+            <th className="text-right font-normal py-0.5">CVaR</th>
+          </tr>
+        </thead>
+        <tbody>
+          {VAR_METHODS.flatMap((method) =>
+            estimates
+              .filter((e) => e.method === method)
+              .map((e) => (
+                <tr key={`${method}-${e.confidence}`} className="border-t border-gray-100">
+                  <td className="text-gray-600 py-0.5">
+                    {VAR_METHOD_LABELS[method]} {e.confidence * 100}%
+                  </td>
+                  <td className="text-right font-medium text-red-600 py-0.5">{formatPercent(-e.valueAtRisk)}</td>
+                  <td className="text-right font-medium text-red-600 py-0.5">{formatPercent(-e.expectedShortfall)}</td>
+                </tr>
+              ))
+          )}
+        </tbody>
+      </table>
+      <p className="text-xs text-gray-400 mt-2">{report.observations} returns</p>
+    </CollapsibleSection>
+  );
+}
+
+export default function StatsPanel({
+  statistics,
+  isLoading,
+  valueLabel,
+  benchmarkStatistics = [],
+  valueAtRisk = [],
+  exportMetadata,
+}: StatsPanelProps) {
+  const benchmarkByTicker = new Map(benchmarkStatistics.map((b) => [b.ticker, b]));
+  const valueAtRiskByTicker = new Map(valueAtRisk.map((r) => [r.ticker, r]));
+
   if (isLoading) {
     return (
       <div className="bg-gray-50 rounded-lg shadow-md overflow-hidden">
@@ -117,11 +218,21 @@ export default function StatsPanel({ statistics, isLoading }: StatsPanelProps) {
 
   return (
     <div className="bg-gray-50 rounded-lg shadow-md overflow-hidden custom-scrollbar max-h-[calc(100vh-200px)] overflow-y-auto">
+      {exportMetadata && (
+        <div className="flex justify-end bg-white px-3 py-2 border-b border-gray-200">
+          <ExportMenu
+            fileName="statistics"
+            metadata={exportMetadata}
+            build={() => statisticsExport(statistics, benchmarkStatistics, valueAtRisk)}
+          />
+        </div>
+      )}
       {statistics.map((stats, index) => (
         <div key={stats.ticker} className={index > 0 ? 'border-t-4 border-gray-300' : ''}>
           {/* Ticker Header */}
           <div className="bg-blue-600 text-white py-2 px-3">
             <h3 className="font-bold text-lg">{stats.ticker}</h3>
+            {valueLabel && <p className="text-xs text-blue-100">{valueLabel}</p>}
           </div>
 
           {/* RETURNS Section */}
@@ -201,7 +312,55 @@ export default function StatsPanel({ statistics, isLoading }: StatsPanelProps) {
               isPositive={stats.sharpeRatio > 0}
               isNegative={stats.sharpeRatio < 0}
             />
+            <StatRow label="Periods / Year" value={stats.periodsPerYear} />
+          </CollapsibleSection>
+
+          {/* RISK-ADJUSTED Section */}
+          <CollapsibleSection title="RISK-ADJUSTED">
+            <StatRow
+              label="Sortino Ratio"
+              value={formatNumber(stats.sortinoRatio)}
+              isPositive={stats.sortinoRatio > 0}
+              isNegative={stats.sortinoRatio < 0}
+            />
+            <StatRow
+              label="Calmar Ratio"
+              value={formatNumber(stats.calmarRatio)}
+              isPositive={stats.calmarRatio > 0}
+              isNegative={stats.calmarRatio < 0}
+            />
+            <StatRow label="Ulcer Index" value={`${formatNumber(stats.ulcerIndex)}%`} />
+            <StatRow
+              label="Martin Ratio"
+              value={formatNumber(stats.martinRatio)}
+              isPositive={stats.martinRatio > 0}
+              isNegative={stats.martinRatio < 0}
+            />
+            <StatRow label="Pain Index" value={`${formatNumber(stats.painIndex)}%`} />
+            <StatRow
+              label="Omega Ratio"
+              value={stats.omegaRatio !== null ? formatNumber(stats.omegaRatio) : 'n/a'}
+              isPositive={stats.omegaRatio !== null && stats.omegaRatio > 1}
+              isNegative={stats.omegaRatio !== null && stats.omegaRatio < 1}
+            />
+            <StatRow
+              label="Gain to Pain"
+              value={stats.gainToPainRatio !== null ? formatNumber(stats.gainToPainRatio) : 'n/a'}
+              isPositive={stats.gainToPainRatio !== null && stats.gainToPainRatio > 0}
+              isNegative={stats.gainToPainRatio !== null && stats.gainToPainRatio < 0}
+            />
+            <StatRow label="MAR" value={`${formatNumber(stats.minAcceptableReturn, 1)}%`} />
           </CollapsibleSection>
+
+          {/* BENCHMARK Section - tickers other than the benchmark */}
+          {benchmarkByTicker.has(stats.ticker) && (
+            <BenchmarkSection relative={benchmarkByTicker.get(stats.ticker)!} />
+          )}
+
+          {/* VALUE AT RISK Section */}
+          {valueAtRiskByTicker.has(stats.ticker) && (
+            <ValueAtRiskSection report={valueAtRiskByTicker.get(stats.ticker)!} />
+          )}
         </div>
       ))}
     </div>
@@ -1,25 +1,139 @@
 'use client';
 
-import { useState, FormEvent } from 'react';
+import { useState, useEffect, FormEvent, KeyboardEvent } from 'react';
+import { SymbolCheck, SymbolCheckResponse, SymbolInfo, SymbolSearchResponse } from '@/lib/types';
+import { isExpression } from '@/lib/expression';
+import { formatSymbolForInput, validateTickerInput } from '@/lib/symbols';
+
+// Delay before searching the catalogue while typing
+const SEARCH_DEBOUNCE_MS = 150;
 
 interface TickerInputProps {
   onSubmit: (tickers: string[]) => void;
   isLoading: boolean;
+  loadedTickers?: string[]; // shown in the input when loaded from a shared link or workspace
 }
 
-export default function TickerInput({ onSubmit, isLoading }: TickerInputProps) {
+export default function TickerInput({ onSubmit, isLoading, loadedTickers }: TickerInputProps) {
   const [inputValue, setInputValue] = useState('');
+  const [suggestions, setSuggestions] = useState<SymbolInfo[]>([]);
+  const [highlightedIndex, setHighlightedIndex] = useState(-1);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [validationWarning, setValidationWarning] = useState<string | null>(null);
+  // Input whose unknown symbols were already shown; submitting it again loads it anyway
+  const [warnedInput, setWarnedInput] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (loadedTickers && loadedTickers.length > 0) setInputValue(loadedTickers.join(', '));
+  }, [loadedTickers]);
+
+  // Autocomplete applies to the ticker being typed, i.e. after the last comma
+  const currentToken = inputValue.split(',').pop()!.trim();
+
+  useEffect(() => {
+    if (currentToken.length === 0 || isExpression(currentToken)) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/symbols?q=${encodeURIComponent(currentToken)}`);
+        const result: SymbolSearchResponse = await response.json();
+        if (!cancelled) {
+          setSuggestions(result.data || []);
+          setHighlightedIndex(-1);
+        }
+      } catch (err) {
+        console.error('Symbol search error:', err);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [currentToken]);
+
+  const selectSuggestion = (symbol: string) => {
+    const parts = inputValue.split(',');
+    parts[parts.length - 1] = `${parts.length > 1 ? ' ' : ''}${formatSymbolForInput(symbol)}`;
+    setInputValue(parts.join(','));
+    setShowSuggestions(false);
+    setSuggestions([]);
+  };
+
+  const isDropdownOpen = showSuggestions && suggestions.length > 0;
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (!isDropdownOpen) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlightedIndex((i) => (i + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlightedIndex((i) => (i <= 0 ? suggestions.length - 1 : i - 1));
+    } else if ((e.key === 'Enter' || e.key === 'Tab') && highlightedIndex >= 0) {
+      e.preventDefault();
+      selectSuggestion(suggestions[highlightedIndex].symbol);
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false);
+    }
+  };
+
+  // Provider and catalogue checks; null when the check itself fails, so it never blocks loading
+  const checkTickers = async (tickers: string[]): Promise<SymbolCheck[] | null> => {
+    try {
+      const response = await fetch(`/api/symbols/check?tickers=${encodeURIComponent(tickers.join(','))}`);
+      const result: SymbolCheckResponse = await response.json();
+      return result.data || null;
+    } catch (err) {
+      console.error('Symbol check error:', err);
+      return null;
+    }
+  };
 
-  const handleSubmit = (e: FormEvent) => {
+  const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
-    const tickers = inputValue
+    const submitted = inputValue;
+    const tickers = submitted
       .split(',')
       .map(t => t.trim())
       .filter(t => t.length > 0);
 
-    if (tickers.length > 0) {
-      onSubmit(tickers);
+    const invalid = tickers
+      .map((ticker) => ({ ticker, error: validateTickerInput(ticker) }))
+      .filter((v) => v.error !== null);
+
+    if (invalid.length > 0) {
+      setValidationError(invalid.map((v) => `${v.ticker}: ${v.error}`).join('; '));
+      return;
     }
+    if (tickers.length === 0) return;
+
+    setShowSuggestions(false);
+    const checks = await checkTickers(tickers);
+    const rejected = (checks || []).filter((c) => c.error);
+    if (rejected.length > 0) {
+      setValidationError(rejected.map((c) => `${c.ticker}: ${c.error}`).join('; '));
+      return;
+    }
+
+    const unknown = Array.from(new Set((checks || []).flatMap((c) => c.unknown)));
+    if (unknown.length > 0 && warnedInput !== submitted) {
+      setValidationWarning(
+        `Not in the symbol catalogue: ${unknown.join(', ')}. Check the spelling, or press Analyze again to load anyway.`
+      );
+      setWarnedInput(submitted);
+      return;
+    }
+
+    setValidationError(null);
+    setValidationWarning(null);
+    onSubmit(tickers);
   };
 
   const examples = [
@@ -32,20 +146,66 @@ export default function TickerInput({ onSubmit, isLoading }: TickerInputProps) {
     { label: 'CSPX.UK', value: 'CSPX.UK' },
     { label: 'VDTA.UK', value: 'VDTA.UK' },
     { label: 'ETFBM40TR.PL', value: 'ETFBM40TR.PL' },
+    { label: 'CSPX.UK/IWDA.UK', value: 'CSPX.UK/IWDA.UK' },
   ];
 
   return (
     <div className="bg-white rounded-lg shadow-md p-4 mb-4">
       <form onSubmit={handleSubmit} className="flex gap-3">
-        <div className="flex-1">
+        <div className="flex-1 relative">
           <input
             type="text"
             value={inputValue}
-            onChange={(e) => setInputValue(e.target.value)}
-            placeholder="Enter tickers (e.g., USDPLN, IWDA.UK, WIG20)"
+            onChange={(e) => {
+              setInputValue(e.target.value);
+              setShowSuggestions(true);
+              setValidationError(null);
+              setValidationWarning(null);
+            }}
+            onKeyDown={handleKeyDown}
+            onFocus={() => setShowSuggestions(true)}
+            onBlur={() => setShowSuggestions(false)}
+            autoComplete="off"
+            role="combobox"
+            aria-controls="ticker-suggestions"
+            aria-expanded={isDropdownOpen}
+            aria-autocomplete="list"
+            placeholder="Enter tickers or expressions (e.g., USDPLN, IWDA.UK, WIG20-MWIG40)"
             className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             disabled={isLoading}
           />
+          {isDropdownOpen && (
+            <ul
+              id="ticker-suggestions"
+              role="listbox"
+              className="absolute z-20 left-0 right-0 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg max-h-72 overflow-y-auto"
+            >
+              {suggestions.map((info, i) => (
+                <li
+                  key={info.symbol}
+                  role="option"
+                  aria-selected={i === highlightedIndex}
+                  // mousedown fires before the input's blur closes the list
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    selectSuggestion(info.symbol);
+                  }}
+                  onMouseEnter={() => setHighlightedIndex(i)}
+                  className={`px-4 py-2 cursor-pointer flex items-baseline justify-between gap-3 ${
+                    i === highlightedIndex ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  <span className="min-w-0">
+                    <span className="font-semibold text-gray-900">{info.symbol}</span>
+                    <span className="ml-2 text-sm text-gray-600 truncate">{info.name}</span>
+                  </span>
+                  <span className="text-xs text-gray-400 whitespace-nowrap">
+                    {info.exchange} · {info.currency} · {info.assetClass}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
         <button
           type="submit"
@@ -77,13 +237,23 @@ export default function TickerInput({ onSubmit, isLoading }: TickerInputProps) {
           )}
         </button>
       </form>
+      {validationError && (
+        <p className="mt-2 text-sm text-red-600">{validationError}</p>
+      )}
+      {!validationError && validationWarning && (
+        <p className="mt-2 text-sm text-amber-700">{validationWarning}</p>
+      )}
       <div className="mt-3 flex flex-wrap gap-2">
         <span className="text-sm text-gray-500">Quick examples:</span>
         {examples.map((example) => (
           <button
             key={example.value}
             type="button"
-            onClick={() => setInputValue(example.value)}
+            onClick={() => {
+              setInputValue(example.value);
+              setValidationError(null);
+              setValidationWarning(null);
+            }}
             className="text-sm px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded-full text-gray-700 transition-colors"
           >
             {example.label}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useMemo, useRef } from 'react';
 import {
   ComposedChart,
   Area,
@@ -16,12 +16,22 @@ import {
 } from 'recharts';
 import { StooqDataPoint, TrendSignal } from '@/lib/types';
 import { calculateTrendFollowingAnalysis } from '@/lib/statistics';
+import { ExportMetadata, trendFollowingExport, withParameters } from '@/lib/export';
+import ExportMenu from './ExportMenu';
+import ChartImageExport from './ChartImageExport';
 import DateAxisTick, { computeEvenTicks, MONTHS } from './DateAxisTick';
 
 interface TrendFollowingSectionProps {
   data: StooqDataPoint[];     // Filtered price data (visible range)
   rawData: StooqDataPoint[];  // Full unfiltered data for SMA warmup
   ticker: string;
+  periodsPerYear?: number;    // Observations per year; detected from dates when omitted
+  riskFreeRate: number;       // Annual rate as a decimal (0.02 = 2%)
+  commission: number;         // Per-trade commission as a decimal
+  onRiskFreeRateChange: (rate: number) => void;
+  onCommissionChange: (commission: number) => void;
+  exportMetadata?: ExportMetadata;
+  dataSources?: string[]; // named in the image export footer
 }
 
 // Risk-free rate options (0% to 5%, 0.5% increments)
@@ -190,16 +200,22 @@ export default function TrendFollowingSection({
   data,
   rawData,
   ticker,
+  periodsPerYear,
+  riskFreeRate,
+  commission,
+  onRiskFreeRateChange,
+  onCommissionChange,
+  exportMetadata,
+  dataSources,
 }: TrendFollowingSectionProps) {
-  // Local state for configurable parameters
-  const [riskFreeRate, setRiskFreeRate] = useState(0.02);
-  const [commission, setCommission] = useState(0.002);
+  // Image export stacks the growth and drawdown charts
+  const chartsRef = useRef<HTMLDivElement>(null);
 
   // Calculate analysis with current parameters
   // rawData provides full history for SMA warmup so the chart aligns with the price chart date range
   const analysis = useMemo(() => {
-    return calculateTrendFollowingAnalysis(data, riskFreeRate, commission, rawData);
-  }, [data, riskFreeRate, commission, rawData]);
+    return calculateTrendFollowingAnalysis(data, riskFreeRate, commission, rawData, periodsPerYear);
+  }, [data, riskFreeRate, commission, rawData, periodsPerYear]);
 
   // Calculate signal statistics (memoized for efficiency)
   // Must be before early return to satisfy React hooks rules
@@ -297,7 +313,7 @@ export default function TrendFollowingSection({
   const signalChanges = signalDates.slice(-20); // Show last 20 signal changes max
 
   return (
-    <div className="bg-white rounded-lg shadow-md p-4 mt-4">
+    <div ref={chartsRef} className="bg-white rounded-lg shadow-md p-4 mt-4">
       {/* Header */}
       <div className="mb-4">
         <div className="flex flex-wrap items-baseline gap-2">
@@ -307,6 +323,34 @@ export default function TrendFollowingSection({
           <span className="text-sm text-gray-500">
             {displayDateRange}
           </span>
+          <div className="ml-auto flex gap-2">
+            <ChartImageExport
+              targetRef={chartsRef}
+              sources={dataSources}
+              fileName={`${ticker}_trend_following`}
+              title={`${ticker} Buy & Hold vs Trend Following (10m-SMA)`}
+              subtitle={displayDateRange}
+              legend={[
+                { label: 'Buy & Hold', color: '#2563eb' },
+                { label: 'Trend Following', color: '#16a34a' },
+                { label: '10m-SMA', color: '#9ca3af' },
+                { label: 'Buy Signal', color: '#22c55e' },
+                { label: 'Sell Signal', color: '#ef4444' },
+              ]}
+            />
+            {exportMetadata && (
+              <ExportMenu
+                fileName={`${ticker}_trend_following`}
+                metadata={withParameters(exportMetadata, {
+                  ticker,
+                  strategy: '10-month SMA',
+                  riskFreeRate,
+                  commission,
+                })}
+                build={() => trendFollowingExport(analysis)}
+              />
+            )}
+          </div>
         </div>
         <p className="text-sm text-gray-500 mt-1">
           Growth of $1 comparing passive investing to a 10-month moving average strategy.
@@ -333,7 +377,7 @@ export default function TrendFollowingSection({
           <label className="text-sm text-gray-600">Risk-free rate:</label>
           <select
             value={riskFreeRate}
-            onChange={(e) => setRiskFreeRate(parseFloat(e.target.value))}
+            onChange={(e) => onRiskFreeRateChange(parseFloat(e.target.value))}
             className="text-sm border border-gray-300 rounded px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
           >
             {RISK_FREE_RATE_OPTIONS.map((opt) => (
@@ -347,7 +391,7 @@ export default function TrendFollowingSection({
           <label className="text-sm text-gray-600">Commission:</label>
           <select
             value={commission}
-            onChange={(e) => setCommission(parseFloat(e.target.value))}
+            onChange={(e) => onCommissionChange(parseFloat(e.target.value))}
             className="text-sm border border-gray-300 rounded px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
           >
             {COMMISSION_OPTIONS.map((opt) => (
@@ -0,0 +1,211 @@
+'use client';
+
+import { useState, useMemo, useRef } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  Label,
+} from 'recharts';
+import { StooqDataPoint, ValueAtRiskReport, VarHorizon, VarMethod, VAR_CONFIDENCE_LEVELS, VAR_HORIZONS } from '@/lib/types';
+import { calculateHistogram, HistogramBin } from '@/lib/statistics';
+import { calculateHorizonReturns, horizonBars, VAR_METHOD_LABELS } from '@/lib/risk';
+import { ExportMetadata, valueAtRiskExport, withParameters } from '@/lib/export';
+import ExportMenu from './ExportMenu';
+import ChartImageExport from './ChartImageExport';
+
+interface ValueAtRiskChartProps {
+  data: StooqDataPoint[];
+  ticker: string;
+  report: ValueAtRiskReport;
+  exportMetadata?: ExportMetadata;
+  dataSources?: string[]; // named in the image export footer
+}
+
+const HISTOGRAM_BINS = 50;
+
+const METHOD_COLORS: Record<VarMethod, string> = {
+  historical: '#dc2626',
+  normal: '#2563eb',
+  cornishFisher: '#9333ea',
+  bootstrap: '#f59e0b',
+};
+
+// Losses are stored as positive percentages; a negative estimate is a gain
+function formatLoss(loss: number): string {
+  return `${loss > 0 ? '-' : '+'}${Math.abs(loss).toFixed(2)}%`;
+}
+
+function HistogramTooltip({ active, payload }: {
+  active?: boolean;
+  payload?: { payload: HistogramBin }[];
+}) {
+  if (!active || !payload || payload.length === 0) return null;
+  const bin = payload[0].payload;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg shadow-md px-3 py-2 text-xs">
+      <div className="font-semibold text-gray-800">
+        {bin.start.toFixed(2)}% to {bin.end.toFixed(2)}%
+      </div>
+      <div className="text-gray-600">{bin.count} returns</div>
+    </div>
+  );
+}
+
+export default function ValueAtRiskChart({ data, ticker, report, exportMetadata, dataSources }: ValueAtRiskChartProps) {
+  const [horizon, setHorizon] = useState<VarHorizon>('1d');
+  const [confidence, setConfidence] = useState(VAR_CONFIDENCE_LEVELS[0]);
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  // The histogram needs whole bars, so horizons shorter than one bar (e.g. 1D on weekly data) are left out
+  const horizons = VAR_HORIZONS.filter((h) => horizonBars(h, report.periodsPerYear) >= 1);
+  const activeHorizon = horizons.includes(horizon) ? horizon : horizons[0];
+
+  const histogram = useMemo(() => {
+    if (!activeHorizon) return [];
+    const bars = Math.round(horizonBars(activeHorizon, report.periodsPerYear));
+    const returns = calculateHorizonReturns(data, bars).map((r) => r * 100);
+    return calculateHistogram(returns, HISTOGRAM_BINS);
+  }, [data, activeHorizon, report.periodsPerYear]);
+
+  if (!activeHorizon || histogram.length === 0) return null;
+
+  const estimates = report.estimates.filter((e) => e.horizon === activeHorizon && e.confidence === confidence);
+  const confidenceLabel = `${confidence * 100}%`;
+  const horizonLabel = activeHorizon.toUpperCase();
+
+  // Keep every threshold on the axis, even beyond the worst observed return
+  const domainMin = Math.min(histogram[0].start, ...estimates.map((e) => -e.valueAtRisk));
+  const domainMax = histogram[histogram.length - 1].end;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 mt-4">
+      {/* Header */}
+      <div className="mb-4">
+        <div className="flex flex-wrap items-baseline gap-2">
+          <h2 className="text-lg font-semibold text-gray-800">
+            {ticker} Value at Risk
+          </h2>
+          <div className="ml-auto flex gap-2">
+            <ChartImageExport
+              targetRef={chartRef}
+              sources={dataSources}
+              fileName={`${ticker}_var_${activeHorizon}_${confidence * 100}`}
+              title={`${ticker} ${horizonLabel} Return Distribution and ${confidenceLabel} VaR`}
+              subtitle={`${report.observations} returns, ${data[0].date} to ${data[data.length - 1].date}`}
+              legend={[
+                { label: `${horizonLabel} returns`, color: '#94a3b8' },
+                ...estimates.map((e) => ({ label: `${VAR_METHOD_LABELS[e.method]} VaR`, color: METHOD_COLORS[e.method] })),
+              ]}
+            />
+            {exportMetadata && (
+              <ExportMenu
+                fileName={`${ticker}_var`}
+                metadata={withParameters(exportMetadata, { ticker, histogramHorizon: activeHorizon })}
+                build={() => valueAtRiskExport(report, histogram)}
+              />
+            )}
+          </div>
+        </div>
+        <p className="text-sm text-gray-500 mt-1">
+          Distribution of overlapping {horizonLabel} returns with the loss thresholds of each VaR method.
+        </p>
+      </div>
+
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-gray-600">Horizon:</label>
+          <div className="flex gap-1">
+            {horizons.map((h) => (
+              <button
+                key={h}
+                onClick={activeHorizon !== h ? () => setHorizon(h) : undefined}
+                className={`px-2 py-0.5 text-xs rounded transition-colors ${
+                  activeHorizon === h
+                    ? 'bg-gray-800 text-white'
+                    : 'bg-gray-100 text-gray-500 border border-gray-200 hover:bg-gray-200'
+                }`}
+              >
+                {h.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-gray-600">Confidence:</label>
+          <div className="flex gap-1">
+            {VAR_CONFIDENCE_LEVELS.map((c) => (
+              <button
+                key={c}
+                onClick={confidence !== c ? () => setConfidence(c) : undefined}
+                className={`px-2 py-0.5 text-xs rounded transition-colors ${
+                  confidence === c
+                    ? 'bg-gray-800 text-white'
+                    : 'bg-gray-100 text-gray-500 border border-gray-200 hover:bg-gray-200'
+                }`}
+              >
+                {c * 100}%
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Chart */}
+      <div ref={chartRef} className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={histogram} margin={{ top: 10, right: 30, left: -15, bottom: 0 }} barCategoryGap={1}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis
+              dataKey="mid"
+              type="number"
+              domain={[domainMin, domainMax]}
+              tick={{ fontSize: 11, fill: '#6b7280' }}
+              tickFormatter={(value) => `${value.toFixed(1)}%`}
+              tickCount={9}
+              axisLine={false}
+              tickLine={false}
+            />
+            <YAxis tick={{ fontSize: 10, fill: '#6b7280' }} allowDecimals={false} />
+            <Tooltip content={<HistogramTooltip />} />
+            <Bar dataKey="count" fill="#94a3b8" isAnimationActive={false} />
+            {estimates.map((e, i) => (
+              <ReferenceLine
+                key={e.method}
+                x={-e.valueAtRisk}
+                stroke={METHOD_COLORS[e.method]}
+                strokeDasharray="6 4"
+                strokeWidth={1.5}
+              >
+                <Label
+                  value={formatLoss(e.valueAtRisk)}
+                  position="insideTopLeft"
+                  dy={i * 14}
+                  fill={METHOD_COLORS[e.method]}
+                  fontSize={11}
+                  fontWeight={500}
+                />
+              </ReferenceLine>
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* CVaR summary */}
+      <div className="flex flex-wrap gap-x-6 gap-y-1 mt-3 text-xs">
+        {estimates.map((e) => (
+          <span key={e.method} style={{ color: METHOD_COLORS[e.method] }}>
+            {VAR_METHOD_LABELS[e.method]}: VaR {formatLoss(e.valueAtRisk)}, CVaR {formatLoss(e.expectedShortfall)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import { useState, useRef, ChangeEvent, FormEvent } from 'react';
+import { exportWorkspaces, parseWorkspaceFile, Workspace, WorkspaceImportError } from '@/lib/workspaces';
+import { downloadBlob } from '@/lib/export';
+
+interface WorkspaceMenuProps {
+  workspaces: Workspace[];
+  activeName: string;
+  canSave: boolean; // false until tickers are loaded
+  onSelect: (workspace: Workspace) => void;
+  onSave: (name: string) => void;
+  onDelete: (name: string) => void;
+  onImport: (workspaces: Workspace[]) => void;
+}
+
+export default function WorkspaceMenu({
+  workspaces,
+  activeName,
+  canSave,
+  onSelect,
+  onSave,
+  onDelete,
+  onImport,
+}: WorkspaceMenuProps) {
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const buttonClass =
+    'text-sm px-3 py-1 border border-gray-300 rounded hover:bg-gray-100 text-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  const handleSelect = (selected: string) => {
+    const workspace = workspaces.find((w) => w.name === selected);
+    if (workspace) onSelect(workspace);
+  };
+
+  const startSaving = () => {
+    setName(activeName);
+    setIsNaming(true);
+    setMessage(null);
+  };
+
+  const handleSave = (e: FormEvent) => {
+    e.preventDefault();
+    if (name.trim().length === 0) return;
+    onSave(name.trim());
+    setIsNaming(false);
+  };
+
+  const handleDelete = () => {
+    if (activeName && window.confirm(`Delete workspace "${activeName}"?`)) {
+      onDelete(activeName);
+    }
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([exportWorkspaces(workspaces)], { type: 'application/json' }), 'stooq-workspaces.json');
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const imported = parseWorkspaceFile(await file.text());
+      onImport(imported);
+      setMessage({ text: `Imported ${imported.length} workspace${imported.length === 1 ? '' : 's'}`, isError: false });
+    } catch (err) {
+      console.error('Workspace import error:', err);
+      setMessage({
+        text: err instanceof WorkspaceImportError ? err.message : `Could not read ${file.name}`,
+        isError: true,
+      });
+    }
+    e.target.value = '';
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        {isNaming ? (
+          <form onSubmit={handleSave} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Workspace name"
+              autoFocus
+              className="w-40 text-sm px-3 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={name.trim().length === 0}
+              className="text-sm px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium"
+            >
+              Save
+            </button>
+            <button type="button" onClick={() => setIsNaming(false)} className={buttonClass}>
+              Cancel
+            </button>
+          </form>
+        ) : (
+          <>
+            <select
+              value={activeName}
+              onChange={(e) => handleSelect(e.target.value)}
+              disabled={workspaces.length === 0}
+              aria-label="Workspace"
+              className="text-sm border border-gray-300 rounded px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="" disabled>
+                {workspaces.length === 0 ? 'No workspaces' : 'Workspace...'}
+              </option>
+              {workspaces.map((w) => (
+                <option key={w.name} value={w.name}>{w.name}</option>
+              ))}
+            </select>
+            <button onClick={startSaving} disabled={!canSave} className={buttonClass} title="Save the current view">
+              Save
+            </button>
+            {activeName && (
+              <button onClick={handleDelete} className={buttonClass} title={`Delete ${activeName}`}>
+                Delete
+              </button>
+            )}
+            <button
+              onClick={handleExport}
+              disabled={workspaces.length === 0}
+              className={buttonClass}
+              title="Download all workspaces as JSON"
+            >
+              Export
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className={buttonClass}
+              title="Load workspaces from a JSON export"
+            >
+              Import
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json" onChange={handleImport} className="hidden" />
+          </>
+        )}
+      </div>
+      {message && (
+        <p className={`text-xs ${message.isError ? 'text-red-600' : 'text-gray-500'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+}
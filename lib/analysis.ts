@@ -0,0 +1,199 @@
+import {
+  BenchmarkReturnFrequency,
+  BENCHMARK_RETURN_FREQUENCIES,
+  BenchmarkStatistics,
+  RollingReturnDataPoint,
+  Statistics,
+  StooqInterval,
+  STOOQ_INTERVALS,
+  TickerData,
+  TickerResult,
+  TrendFollowingAnalysis,
+} from './types';
+import {
+  calculateBenchmarkStatistics,
+  calculateDrawdownSeries,
+  calculateReturnsTable,
+  calculateRollingReturns,
+  calculateStatistics,
+  calculateTrendFollowingAnalysis,
+  detectPeriodsPerYear,
+  DrawdownSeries,
+  filterDataByDateRange,
+  ReturnsTableData,
+} from './statistics';
+import { DEFAULT_VIEW_STATE } from './urlState';
+
+// Headless version of the dashboard calculations, shared by /api/analyze and the CLI.
+
+export interface AnalysisOptions {
+  startDate: string; // empty = first available date
+  endDate: string;   // empty = last available date
+  interval: StooqInterval;
+  periodsPerYear: number | null; // null = detected from the data
+  minAcceptableReturn: number;
+  benchmark: string; // ticker the others are measured against, '' = none
+  benchmarkFrequency: BenchmarkReturnFrequency;
+  riskFreeRate: number;
+  commission: number;
+  rollingYears: number;
+}
+
+export const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = {
+  startDate: '',
+  endDate: '',
+  interval: 'd',
+  periodsPerYear: null,
+  minAcceptableReturn: DEFAULT_VIEW_STATE.minAcceptableReturn,
+  benchmark: '',
+  benchmarkFrequency: DEFAULT_VIEW_STATE.benchmarkFrequency,
+  riskFreeRate: DEFAULT_VIEW_STATE.riskFreeRate,
+  commission: DEFAULT_VIEW_STATE.commission,
+  rollingYears: DEFAULT_VIEW_STATE.rollingYears,
+};
+
+export interface TickerAnalysis {
+  ticker: string;
+  startDate: string;
+  endDate: string;
+  periodsPerYear: number;
+  statistics: Statistics | null; // null with fewer than 2 observations in range
+  benchmark: BenchmarkStatistics | null; // null without a benchmark, for the benchmark itself or too few common dates
+  returnsTable: ReturnsTableData;
+  rollingReturns: RollingReturnDataPoint[];
+  drawdowns: DrawdownSeries;
+  trendFollowing: TrendFollowingAnalysis | null; // null with less than ~1 year of data
+}
+
+export interface AnalyzeResponse {
+  success: boolean;
+  options?: AnalysisOptions;
+  data?: TickerAnalysis[];
+  results?: TickerResult[];
+  error?: string;
+  benchmarkError?: string; // set when the benchmark failed to load; every ticker then has benchmark: null
+}
+
+export class AnalysisOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnalysisOptionsError';
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isMissing = (value: unknown) => value === undefined || value === null || value === '';
+
+function parseDate(value: unknown, name: string): string {
+  if (isMissing(value)) return '';
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) {
+    throw new AnalysisOptionsError(`${name} must be a date in YYYY-MM-DD format`);
+  }
+  return value;
+}
+
+function parseNumber(value: unknown, name: string, min: number, max: number): number {
+  const num = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN;
+  if (!isFinite(num) || num < min || num > max) {
+    throw new AnalysisOptionsError(`${name} must be a number between ${min} and ${max}`);
+  }
+  return num;
+}
+
+/**
+ * Validate analysis options from query parameters or a JSON body. Missing
+ * values fall back to the dashboard defaults; invalid ones throw AnalysisOptionsError.
+ */
+export function parseAnalysisOptions(input: Record<string, unknown>): AnalysisOptions {
+  const d = DEFAULT_ANALYSIS_OPTIONS;
+  const startDate = parseDate(input.from, 'from');
+  const endDate = parseDate(input.to, 'to');
+  if (startDate && endDate && startDate > endDate) {
+    throw new AnalysisOptionsError('from must not be after to');
+  }
+
+  const benchmarkFrequency = input.benchmarkFrequency ?? d.benchmarkFrequency;
+  if (!BENCHMARK_RETURN_FREQUENCIES.includes(benchmarkFrequency as BenchmarkReturnFrequency)) {
+    throw new AnalysisOptionsError(
+      `Invalid benchmarkFrequency: ${String(benchmarkFrequency)} (expected one of ${BENCHMARK_RETURN_FREQUENCIES.join(', ')})`
+    );
+  }
+
+  const interval = input.interval ?? d.interval;
+  if (!STOOQ_INTERVALS.includes(interval as StooqInterval)) {
+    throw new AnalysisOptionsError(
+      `Invalid interval: ${String(interval)} (expected one of ${STOOQ_INTERVALS.join(', ')})`
+    );
+  }
+
+  return {
+    startDate,
+    endDate,
+    interval: interval as StooqInterval,
+    periodsPerYear: isMissing(input.periodsPerYear)
+      ? null
+      : Math.round(parseNumber(input.periodsPerYear, 'periodsPerYear', 1, 366)),
+    minAcceptableReturn: isMissing(input.minAcceptableReturn)
+      ? d.minAcceptableReturn
+      : parseNumber(input.minAcceptableReturn, 'minAcceptableReturn', -0.2, 0.2),
+    benchmark: isMissing(input.benchmark) ? d.benchmark : String(input.benchmark).trim().toUpperCase(),
+    benchmarkFrequency: benchmarkFrequency as BenchmarkReturnFrequency,
+    riskFreeRate: isMissing(input.riskFreeRate)
+      ? d.riskFreeRate
+      : parseNumber(input.riskFreeRate, 'riskFreeRate', 0, 0.2),
+    commission: isMissing(input.commission) ? d.commission : parseNumber(input.commission, 'commission', 0, 0.05),
+    rollingYears: isMissing(input.rollingYears)
+      ? d.rollingYears
+      : Math.round(parseNumber(input.rollingYears, 'rollingYears', 1, 10)),
+  };
+}
+
+/**
+ * Run the dashboard's focused-asset calculations for one series. `tickerData`
+ * is the full series at the analysis interval; the trend-following SMA warms
+ * up on data before the start date, as on the dashboard. `benchmarkData` is
+ * the series named by options.benchmark, when it loaded.
+ */
+export function analyzeTicker(
+  tickerData: TickerData,
+  options: AnalysisOptions,
+  benchmarkData?: TickerData
+): TickerAnalysis {
+  const rawData = tickerData.data;
+  const startDate = options.startDate || rawData[0]?.date || '';
+  const endDate = options.endDate || rawData[rawData.length - 1]?.date || '';
+  const data = filterDataByDateRange(rawData, startDate, endDate);
+  const periodsPerYear = options.periodsPerYear ?? detectPeriodsPerYear(data);
+
+  return {
+    ticker: tickerData.ticker,
+    startDate: data[0]?.date || startDate,
+    endDate: data[data.length - 1]?.date || endDate,
+    periodsPerYear,
+    statistics: data.length >= 2
+      ? calculateStatistics(tickerData.ticker, data, periodsPerYear, options.minAcceptableReturn)
+      : null,
+    benchmark: benchmarkData && benchmarkData.ticker !== tickerData.ticker
+      ? calculateBenchmarkStatistics(
+        tickerData.ticker,
+        data,
+        benchmarkData.ticker,
+        filterDataByDateRange(benchmarkData.data, startDate, endDate),
+        options.benchmarkFrequency,
+        options.periodsPerYear ?? undefined,
+        options.riskFreeRate
+      )
+      : null,
+    returnsTable: calculateReturnsTable(data, periodsPerYear),
+    rollingReturns: calculateRollingReturns(data, options.rollingYears),
+    drawdowns: calculateDrawdownSeries(data),
+    trendFollowing: calculateTrendFollowingAnalysis(
+      data,
+      options.riskFreeRate,
+      options.commission,
+      rawData,
+      periodsPerYear
+    ),
+  };
+}
@@ -0,0 +1,171 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { StooqDataPoint, CacheStatus } from './types';
+import { mergeStooqData, StooqFetchError } from './stooq';
+
+// Server-side cache for Stooq downloads: in-memory first, then JSON files on disk.
+// Configure with STOOQ_CACHE_DIR, STOOQ_CACHE_TTL_MINUTES and STOOQ_MARKET_CLOSE_UTC_HOUR.
+// STOOQ_OFFLINE=1 serves stored series whatever their age and never downloads.
+const CACHE_DIR = process.env.STOOQ_CACHE_DIR || path.join(process.cwd(), '.cache', 'stooq');
+const CACHE_TTL_MS = Number(process.env.STOOQ_CACHE_TTL_MINUTES || 60) * 60 * 1000;
+const MARKET_CLOSE_UTC_HOUR = Number(process.env.STOOQ_MARKET_CLOSE_UTC_HOUR || 22);
+
+// Number of stored rows re-downloaded on incremental updates to verify nothing changed
+const INCREMENTAL_OVERLAP_ROWS = 5;
+
+export interface CacheEntry {
+  ticker: string;
+  interval: string;
+  fetchedAt: string; // ISO timestamp of the download
+  data: StooqDataPoint[];
+}
+
+const memoryCache = new Map<string, CacheEntry>();
+
+// Read on every call so the CLI can switch it on after this module is loaded
+function isOffline(): boolean {
+  return process.env.STOOQ_OFFLINE === '1';
+}
+
+function cacheKey(ticker: string, interval: string): string {
+  return `${ticker.toUpperCase()}_${interval}`;
+}
+
+function cacheFilePath(key: string): string {
+  // Tickers may contain characters that are not safe in file names (e.g. "^SPX")
+  return path.join(CACHE_DIR, `${key.replace(/[^A-Za-z0-9._-]/g, '_')}.json`);
+}
+
+/**
+ * Most recent daily market close at or before `now`, skipping weekends.
+ */
+export function getLastMarketClose(now: Date = new Date()): Date {
+  const close = new Date(Date.UTC(
+    now.getUTCFullYear(),
+    now.getUTCMonth(),
+    now.getUTCDate(),
+    MARKET_CLOSE_UTC_HOUR
+  ));
+
+  if (close.getTime() > now.getTime()) {
+    close.setUTCDate(close.getUTCDate() - 1);
+  }
+
+  // Saturday -> Friday, Sunday -> Friday
+  while (close.getUTCDay() === 0 || close.getUTCDay() === 6) {
+    close.setUTCDate(close.getUTCDate() - 1);
+  }
+
+  return close;
+}
+
+/**
+ * An entry is fresh while it is younger than the TTL, or when no market close
+ * has happened since it was fetched (the next daily bar cannot exist yet).
+ */
+export function isCacheEntryFresh(entry: CacheEntry, now: Date = new Date()): boolean {
+  const fetchedAt = new Date(entry.fetchedAt).getTime();
+  if (isNaN(fetchedAt)) return false;
+
+  if (now.getTime() - fetchedAt < CACHE_TTL_MS) return true;
+
+  return fetchedAt >= getLastMarketClose(now).getTime();
+}
+
+async function readFromDisk(key: string): Promise<CacheEntry | null> {
+  try {
+    const content = await fs.readFile(cacheFilePath(key), 'utf-8');
+    const entry = JSON.parse(content) as CacheEntry;
+    return Array.isArray(entry.data) ? entry : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Look up a cached series, loading it from disk into memory on first access.
+ * Stale entries are returned as well; use isCacheEntryFresh to decide on refetching.
+ */
+export async function getCacheEntry(ticker: string, interval: string = 'd'): Promise<CacheEntry | null> {
+  const key = cacheKey(ticker, interval);
+
+  const cached = memoryCache.get(key);
+  if (cached) return cached;
+
+  const fromDisk = await readFromDisk(key);
+  if (fromDisk) {
+    memoryCache.set(key, fromDisk);
+  }
+  return fromDisk;
+}
+
+export async function setCacheEntry(
+  ticker: string,
+  interval: string,
+  data: StooqDataPoint[]
+): Promise<CacheEntry> {
+  const key = cacheKey(ticker, interval);
+  const entry: CacheEntry = {
+    ticker: ticker.toUpperCase(),
+    interval,
+    fetchedAt: new Date().toISOString(),
+    data,
+  };
+
+  memoryCache.set(key, entry);
+
+  try {
+    await fs.mkdir(CACHE_DIR, { recursive: true });
+    await fs.writeFile(cacheFilePath(key), JSON.stringify(entry), 'utf-8');
+  } catch (error) {
+    // The in-memory copy still serves requests; disk persistence is best-effort
+    console.warn(`Failed to write cache file for ${key}:`, error);
+  }
+
+  return entry;
+}
+
+/**
+ * Return fresh cached data, or call `fetcher` and store its result.
+ *
+ * When a stale entry exists, `fetcher` is called with the date of a few rows
+ * before its end so only new rows are downloaded. If the overlapping rows no
+ * longer match the stored ones, the full history is downloaded instead.
+ * If refreshing a stored entry fails, the stored data is returned along with the error.
+ */
+export async function getOrFetch(
+  ticker: string,
+  interval: string,
+  fetcher: (fromDate?: string) => Promise<StooqDataPoint[]>
+): Promise<{ data: StooqDataPoint[]; cache: CacheStatus; fetchedAt: string; error?: unknown }> {
+  const cached = await getCacheEntry(ticker, interval);
+
+  if (cached && (isCacheEntryFresh(cached) || isOffline())) {
+    return { data: cached.data, cache: 'hit', fetchedAt: cached.fetchedAt };
+  }
+  if (isOffline()) {
+    throw new StooqFetchError(`${ticker} is not in the local cache (offline mode)`, 404, 'NOT_FOUND');
+  }
+
+  try {
+    if (cached && cached.data.length > 0) {
+      const overlapStart = cached.data[Math.max(0, cached.data.length - INCREMENTAL_OVERLAP_ROWS)].date;
+      const update = await fetcher(overlapStart);
+      const merged = mergeStooqData(cached.data, update);
+
+      if (merged) {
+        const entry = await setCacheEntry(ticker, interval, merged);
+        return { data: entry.data, cache: 'incremental', fetchedAt: entry.fetchedAt };
+      }
+
+      console.warn(`Stored history for ${ticker} no longer matches Stooq, downloading full history`);
+    }
+
+    const data = await fetcher();
+    const entry = await setCacheEntry(ticker, interval, data);
+    return { data: entry.data, cache: 'miss', fetchedAt: entry.fetchedAt };
+  } catch (error) {
+    if (!cached || cached.data.length === 0) throw error;
+    return { data: cached.data, cache: 'stale', fetchedAt: cached.fetchedAt, error };
+  }
+}
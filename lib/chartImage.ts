@@ -0,0 +1,154 @@
+// Chart image export: the Recharts SVG of a chart, framed with a title, legend
+// and data source footer, as a standalone SVG or a rasterized PNG.
+
+export interface ChartLegendItem {
+  label: string;
+  color: string;
+}
+
+export interface ChartImageOptions {
+  title: string;
+  subtitle?: string;
+  legend?: ChartLegendItem[]; // read from a rendered Recharts <Legend> when omitted
+  sources?: string[];         // data sources of the plotted series, for the footer
+  footer?: string;
+}
+
+export interface ChartImage {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+export const PNG_SCALES = [1, 2, 4];
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const PADDING = 16;
+const TITLE_HEIGHT = 24;
+const SUBTITLE_HEIGHT = 18;
+const LEGEND_ROW_HEIGHT = 18;
+const FOOTER_HEIGHT = 22;
+const DEFAULT_FONT = 'ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, Arial, sans-serif';
+
+export function defaultChartFooter(sources: string[] = []): string {
+  const date = new Date().toISOString().slice(0, 10);
+  return sources.length > 0
+    ? `Source: ${sources.join(', ')} via Stooq Analyzer, ${date}`
+    : `Stooq Analyzer, ${date}`;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Main chart surfaces; legend icons are also .recharts-surface but sit outside the wrapper's direct children
+function findChartSurfaces(container: HTMLElement): SVGSVGElement[] {
+  return Array.from(container.querySelectorAll<SVGSVGElement>('.recharts-wrapper > svg.recharts-surface'));
+}
+
+function readRechartsLegend(container: HTMLElement): ChartLegendItem[] {
+  return Array.from(container.querySelectorAll<HTMLElement>('.recharts-legend-item')).map((item) => {
+    const icon = item.querySelector('path, line, rect');
+    return {
+      label: item.querySelector('.recharts-legend-item-text')?.textContent || '',
+      color: icon?.getAttribute('fill') && icon.getAttribute('fill') !== 'none'
+        ? icon.getAttribute('fill')!
+        : icon?.getAttribute('stroke') || '#6b7280',
+    };
+  }).filter((item) => item.label.length > 0);
+}
+
+// Legend laid out in rows, with widths estimated from the label length
+function layoutLegend(items: ChartLegendItem[], width: number): { item: ChartLegendItem; x: number; row: number }[] {
+  let x = 0;
+  let row = 0;
+  return items.map((item) => {
+    const itemWidth = 18 + item.label.length * 6.5 + 16;
+    if (x > 0 && x + itemWidth > width) {
+      x = 0;
+      row++;
+    }
+    const placed = { item, x, row };
+    x += itemWidth;
+    return placed;
+  });
+}
+
+/**
+ * Build a standalone SVG of the chart(s) rendered inside `container`. Several
+ * surfaces (e.g. stacked synchronized charts) are placed below each other.
+ * Throws when the container holds no rendered chart.
+ */
+export function buildChartImage(container: HTMLElement, options: ChartImageOptions): ChartImage {
+  const surfaces = findChartSurfaces(container);
+  if (surfaces.length === 0) throw new Error('No chart to export');
+
+  const sizes = surfaces.map((s) => s.getBoundingClientRect());
+  const chartWidth = Math.ceil(Math.max(...sizes.map((s) => s.width)));
+  const width = chartWidth + PADDING * 2;
+  const font = getComputedStyle(container).fontFamily || DEFAULT_FONT;
+
+  const legend = layoutLegend(options.legend ?? readRechartsLegend(container), chartWidth);
+  const legendRows = legend.length > 0 ? legend[legend.length - 1].row + 1 : 0;
+
+  const parts: string[] = [];
+  let y = PADDING;
+
+  parts.push(`<text x="${PADDING}" y="${y + 16}" font-size="16" font-weight="600" fill="#1f2937">${escapeXml(options.title)}</text>`);
+  y += TITLE_HEIGHT;
+  if (options.subtitle) {
+    parts.push(`<text x="${PADDING}" y="${y + 12}" font-size="12" fill="#6b7280">${escapeXml(options.subtitle)}</text>`);
+    y += SUBTITLE_HEIGHT;
+  }
+
+  for (const { item, x, row } of legend) {
+    const itemY = y + row * LEGEND_ROW_HEIGHT;
+    parts.push(`<rect x="${PADDING + x}" y="${itemY + 3}" width="12" height="8" rx="2" fill="${escapeXml(item.color)}"/>`);
+    parts.push(`<text x="${PADDING + x + 18}" y="${itemY + 11}" font-size="11" fill="#4b5563">${escapeXml(item.label)}</text>`);
+  }
+  y += legendRows * LEGEND_ROW_HEIGHT + (legendRows > 0 ? 6 : 0);
+
+  surfaces.forEach((surface, i) => {
+    const clone = surface.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute('x', String(PADDING));
+    clone.setAttribute('y', String(y));
+    clone.setAttribute('width', String(Math.ceil(sizes[i].width)));
+    clone.setAttribute('height', String(Math.ceil(sizes[i].height)));
+    parts.push(new XMLSerializer().serializeToString(clone));
+    y += Math.ceil(sizes[i].height);
+  });
+
+  const footer = options.footer ?? defaultChartFooter(options.sources);
+  parts.push(`<text x="${PADDING}" y="${y + 16}" font-size="10" fill="#9ca3af">${escapeXml(footer)}</text>`);
+  const height = y + FOOTER_HEIGHT + PADDING / 2;
+
+  const svg = `<svg xmlns="${SVG_NS}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}"`
+    + ` font-family="${escapeXml(font)}">`
+    + `<rect width="100%" height="100%" fill="#ffffff"/>${parts.join('')}</svg>`;
+
+  return { svg, width, height };
+}
+
+/**
+ * Rasterize a chart image to PNG at `scale` times its on-screen size.
+ */
+export function chartImageToPng(image: ChartImage, scale: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(img, 0, 0, image.width, image.height);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+    };
+    img.onerror = () => reject(new Error('Could not render chart SVG'));
+    img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(image.svg)}`;
+  });
+}
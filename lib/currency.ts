@@ -0,0 +1,143 @@
+import { StooqDataPoint, TickerData } from './types';
+import { isExpression } from './expression';
+
+// Base currencies offered for conversion (all have liquid Stooq FX pairs against each other)
+export const BASE_CURRENCIES = ['PLN', 'USD', 'EUR', 'GBP', 'CHF'];
+
+// Quote currency by Stooq market suffix
+const SUFFIX_CURRENCIES: Record<string, string> = {
+  PL: 'PLN',
+  US: 'USD',
+  UK: 'GBP',
+  DE: 'EUR',
+  F: 'EUR',
+  JP: 'JPY',
+  HK: 'HKD',
+  HU: 'HUF',
+  V: 'USD', // crypto
+};
+
+// Listings whose currency differs from their market's default
+const KNOWN_CURRENCIES: Record<string, string> = {
+  'IWDA.UK': 'USD',
+  'VWRA.UK': 'USD',
+  'EIMI.UK': 'USD',
+  'CSPX.UK': 'USD',
+  'VDTA.UK': 'USD',
+  'CNDX.UK': 'USD',
+  'EMIM.UK': 'GBP',
+  '^SPX': 'USD',
+  '^NDX': 'USD',
+  '^DJI': 'USD',
+  '^DAX': 'EUR',
+  '^FTM': 'GBP',
+  '^NKX': 'JPY',
+};
+
+// Currencies recognised in six-letter FX tickers such as USDPLN
+const FX_CURRENCIES = [...BASE_CURRENCIES, 'JPY', 'HKD', 'HUF', 'CZK', 'SEK', 'NOK', 'DKK', 'CAD', 'AUD'];
+const FX_PAIR_PATTERN = /^([A-Z]{3})([A-Z]{3})$/;
+
+/**
+ * Infer the quote currency of a Stooq ticker, or null when it cannot be told
+ * (e.g. uploaded series or other data sources).
+ *
+ * FX pairs are quoted in their second currency (USDPLN -> PLN); tickers
+ * without a market suffix are Warsaw listings and indices (PLN).
+ */
+export function inferQuoteCurrency(ticker: string): string | null {
+  const symbol = ticker.trim().toUpperCase();
+
+  if (KNOWN_CURRENCIES[symbol]) return KNOWN_CURRENCIES[symbol];
+  if (symbol.includes(':') || isExpression(symbol)) return null;
+
+  const dot = symbol.lastIndexOf('.');
+  if (dot > 0) return SUFFIX_CURRENCIES[symbol.slice(dot + 1)] ?? null;
+
+  const pair = symbol.match(FX_PAIR_PATTERN);
+  if (pair && FX_CURRENCIES.includes(pair[1]) && FX_CURRENCIES.includes(pair[2])) return pair[2];
+
+  if (symbol.startsWith('^')) return null;
+  return 'PLN';
+}
+
+/**
+ * Stooq FX ticker that converts `from` into `to` (price of 1 `from` in `to`).
+ */
+export function fxPairTicker(from: string, to: string): string {
+  return `${from}${to}`;
+}
+
+/**
+ * Invert an FX series, e.g. PLNUSD from USDPLN.
+ */
+export function invertFxSeries(data: StooqDataPoint[]): StooqDataPoint[] {
+  return data.map((p) => ({
+    date: p.date,
+    open: 1 / p.open,
+    high: 1 / p.low,
+    low: 1 / p.high,
+    close: 1 / p.close,
+    volume: p.volume,
+  }));
+}
+
+/**
+ * Convert a price series with an FX series (price of 1 unit of the quote
+ * currency in the base currency). Each price date uses that day's FX close,
+ * or the latest earlier one when FX has no quote that day; rows before the
+ * first FX quote are dropped.
+ */
+export function convertSeries(data: StooqDataPoint[], fx: StooqDataPoint[]): StooqDataPoint[] {
+  const converted: StooqDataPoint[] = [];
+  let fxIndex = -1;
+
+  for (const point of data) {
+    while (fxIndex + 1 < fx.length && fx[fxIndex + 1].date <= point.date) {
+      fxIndex++;
+    }
+    if (fxIndex < 0) continue;
+
+    const rate = fx[fxIndex].close;
+    converted.push({
+      ...point,
+      open: point.open * rate,
+      high: point.high * rate,
+      low: point.low * rate,
+      close: point.close * rate,
+    });
+  }
+
+  return converted;
+}
+
+/**
+ * Quote currency of a loaded series: stated by its source, otherwise inferred
+ * from the ticker. Uploaded series without a stated currency are unknown.
+ */
+export function getQuoteCurrency(tickerData: TickerData, isUploaded: boolean = false): string | null {
+  if (tickerData.currency) return tickerData.currency;
+  return isUploaded ? null : inferQuoteCurrency(tickerData.ticker);
+}
+
+/**
+ * Convert every ticker whose quote currency is known and has an FX series in
+ * `fxSeries` (keyed by quote currency). Other tickers are returned unchanged.
+ */
+export function convertTickersData(
+  tickersData: TickerData[],
+  currencies: (string | null)[],
+  baseCurrency: string,
+  fxSeries: Record<string, StooqDataPoint[]>
+): TickerData[] {
+  return tickersData.map((tickerData, i) => {
+    const currency = currencies[i];
+    if (!currency || currency === baseCurrency || !fxSeries[currency]) return tickerData;
+
+    return {
+      ...tickerData,
+      data: convertSeries(tickerData.data, fxSeries[currency]),
+      currency: baseCurrency,
+    };
+  });
+}
@@ -0,0 +1,272 @@
+import {
+  BenchmarkStatistics,
+  RollingReturnDataPoint,
+  Statistics,
+  TrendFollowingAnalysis,
+  ValueAtRiskReport,
+} from './types';
+import { CorrelationMatrix, HistogramBin, ReturnDistribution, RollingCorrelationPoint, YearlyData } from './statistics';
+import { buildXlsxWorkbook, XlsxCell } from './xlsx';
+
+// Downloadable analysis results. Every export carries the tickers, date range
+// and parameters it was computed with, so a file can be traced back to its view.
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'json', label: 'JSON' },
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+];
+
+export interface ExportMetadata {
+  tickers: string[];
+  startDate: string;
+  endDate: string;
+  parameters: Record<string, string | number | boolean | null>;
+}
+
+export interface ExportTable {
+  name: string; // sheet name in XLSX
+  columns: string[];
+  rows: XlsxCell[][];
+}
+
+export interface ExportPayload {
+  tables: ExportTable[]; // CSV and XLSX
+  data: unknown;         // JSON: the underlying data as the app holds it
+}
+
+export interface ExportFile {
+  content: string | ArrayBuffer;
+  mimeType: string;
+  extension: string;
+}
+
+export function safeFileName(name: string): string {
+  return name.replace(/[^A-Za-z0-9._-]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Save a file through the browser's download prompt.
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking in the same task can cancel the download in Safari and Firefox
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function withParameters(
+  metadata: ExportMetadata,
+  parameters: ExportMetadata['parameters']
+): ExportMetadata {
+  return { ...metadata, parameters: { ...metadata.parameters, ...parameters } };
+}
+
+function metadataRows(metadata: ExportMetadata, exportedAt: string): [string, XlsxCell][] {
+  return [
+    ['Exported at', exportedAt],
+    ['Tickers', metadata.tickers.join(', ')],
+    ['From', metadata.startDate],
+    ['To', metadata.endDate],
+    ...Object.entries(metadata.parameters).map(([key, value]): [string, XlsxCell] => [
+      key,
+      typeof value === 'boolean' ? String(value) : value,
+    ]),
+  ];
+}
+
+function csvCell(value: XlsxCell): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCSV(metadata: ExportMetadata, tables: ExportTable[], exportedAt: string): string {
+  // Metadata as leading comment lines; most CSV readers can skip them (e.g. pandas comment='#')
+  const lines = metadataRows(metadata, exportedAt).map(([key, value]) => `# ${key}: ${value ?? ''}`);
+
+  for (const table of tables) {
+    lines.push('');
+    if (tables.length > 1) lines.push(`# ${table.name}`);
+    lines.push(table.columns.map(csvCell).join(','));
+    lines.push(...table.rows.map((row) => row.map(csvCell).join(',')));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Serialize an export. XLSX workbooks get one sheet per table plus a Metadata sheet.
+ */
+export function buildExportFile(format: ExportFormat, metadata: ExportMetadata, payload: ExportPayload): ExportFile {
+  const exportedAt = new Date().toISOString();
+
+  switch (format) {
+    case 'csv':
+      return { content: toCSV(metadata, payload.tables, exportedAt), mimeType: 'text/csv', extension: 'csv' };
+    case 'json':
+      return {
+        content: JSON.stringify({ metadata: { ...metadata, exportedAt }, data: payload.data }, null, 2),
+        mimeType: 'application/json',
+        extension: 'json',
+      };
+    case 'xlsx':
+      return {
+        content: buildXlsxWorkbook([
+          ...payload.tables.map((t) => ({ name: t.name, rows: [t.columns, ...t.rows] })),
+          { name: 'Metadata', rows: metadataRows(metadata, exportedAt) },
+        ]),
+        mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        extension: 'xlsx',
+      };
+  }
+}
+
+// ============================================
+// SECTION EXPORTS
+// ============================================
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function objectsTable<T extends object>(name: string, items: T[], columns: (keyof T & string)[]): ExportTable {
+  return {
+    name,
+    columns,
+    rows: items.map((item) =>
+      columns.map((column) => {
+        const value = item[column];
+        return typeof value === 'number' || typeof value === 'string' ? value : null;
+      })
+    ),
+  };
+}
+
+export function returnsTableExport(years: YearlyData[]): ExportPayload {
+  return {
+    tables: [{
+      name: 'Monthly returns',
+      columns: ['Year', ...MONTHS, 'Annual', 'STD', 'Max drawdown', 'New highs'],
+      rows: years.map((y) => [y.year, ...y.monthlyReturns, y.annualReturn, y.annualStd, y.maxDrawdown, y.athCount]),
+    }],
+    data: years,
+  };
+}
+
+export function statisticsExport(
+  statistics: Statistics[],
+  benchmarkStatistics: BenchmarkStatistics[] = [],
+  valueAtRisk: ValueAtRiskReport[] = []
+): ExportPayload {
+  const columns = statistics.length > 0 ? (Object.keys(statistics[0]) as (keyof Statistics)[]) : [];
+  const tables = [objectsTable('Statistics', statistics, columns)];
+  if (benchmarkStatistics.length === 0 && valueAtRisk.length === 0) return { tables, data: statistics };
+
+  if (benchmarkStatistics.length > 0) {
+    const benchmarkColumns = Object.keys(benchmarkStatistics[0]) as (keyof BenchmarkStatistics)[];
+    tables.push(objectsTable('Benchmark', benchmarkStatistics, benchmarkColumns));
+  }
+  if (valueAtRisk.length > 0) tables.push(valueAtRiskTable(valueAtRisk));
+  return {
+    tables,
+    data: { statistics, benchmark: benchmarkStatistics, valueAtRisk },
+  };
+}
+
+// One row per ticker, method, confidence and horizon
+function valueAtRiskTable(reports: ValueAtRiskReport[]): ExportTable {
+  return {
+    name: 'Value at Risk',
+    columns: ['ticker', 'method', 'confidence', 'horizon', 'valueAtRisk', 'expectedShortfall', 'observations'],
+    rows: reports.flatMap((report) =>
+      report.estimates.map((e) => [
+        report.ticker,
+        e.method,
+        e.confidence,
+        e.horizon,
+        e.valueAtRisk,
+        e.expectedShortfall,
+        report.observations,
+      ])
+    ),
+  };
+}
+
+export function rollingReturnsExport(points: RollingReturnDataPoint[]): ExportPayload {
+  return {
+    tables: [objectsTable('Rolling returns', points, ['date', 'rollingCagr', 'startDate', 'startPrice', 'endPrice'])],
+    data: points,
+  };
+}
+
+export function trendFollowingExport(analysis: TrendFollowingAnalysis): ExportPayload {
+  const summaryKeys = Object.keys(analysis.buyHoldStats) as (keyof TrendFollowingAnalysis['buyHoldStats'])[];
+
+  return {
+    tables: [
+      objectsTable('Equity curves', analysis.chartData, ['date', 'buyHold', 'trendFollowing', 'sma10', 'signal']),
+      objectsTable('Drawdowns', analysis.drawdownData, ['date', 'buyHoldDrawdown', 'trendFollowingDrawdown']),
+      {
+        name: 'Summary',
+        columns: ['Metric', 'Buy & hold', 'Trend following'],
+        rows: summaryKeys.map((key) => [key, analysis.buyHoldStats[key], analysis.trendFollowingStats[key]]),
+      },
+      objectsTable('Signals', analysis.signalDates, ['date', 'signal']),
+    ],
+    data: analysis,
+  };
+}
+
+export function correlationExport(
+  matrix: CorrelationMatrix,
+  first: string,
+  second: string,
+  rolling: RollingCorrelationPoint[]
+): ExportPayload {
+  return {
+    tables: [
+      {
+        name: 'Correlation',
+        columns: ['Ticker', ...matrix.tickers],
+        rows: matrix.tickers.map((ticker, i) => [ticker, ...matrix.values[i]]),
+      },
+      objectsTable('Rolling correlation', rolling, ['date', 'correlation', 'observations']),
+    ],
+    data: { matrix, rolling: { pair: [first, second], points: rolling } },
+  };
+}
+
+export function valueAtRiskExport(report: ValueAtRiskReport, histogram: HistogramBin[]): ExportPayload {
+  return {
+    tables: [valueAtRiskTable([report]), objectsTable('Histogram', histogram, ['start', 'end', 'count'])],
+    data: { ...report, histogram },
+  };
+}
+
+export function returnDistributionExport(distribution: ReturnDistribution): ExportPayload {
+  const { moments } = distribution;
+  return {
+    tables: [
+      {
+        name: 'Summary',
+        columns: ['statistic', 'value'],
+        rows: [
+          ['observations', distribution.observations],
+          ['mean', moments.mean],
+          ['std', moments.std],
+          ['skewness', moments.skewness],
+          ['excessKurtosis', moments.excessKurtosis],
+          ['jarqueBera', distribution.jarqueBera],
+          ['jarqueBeraPValue', distribution.jarqueBeraPValue],
+        ],
+      },
+      objectsTable('Histogram', distribution.histogram, ['start', 'end', 'count', 'normalCount']),
+      objectsTable('Sigma moves', distribution.sigmaMoves, ['sigma', 'down', 'up', 'expected']),
+      objectsTable('QQ', distribution.qq, ['theoretical', 'sample']),
+    ],
+    data: distribution,
+  };
+}
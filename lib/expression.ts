@@ -0,0 +1,274 @@
+import { StooqDataPoint } from './types';
+
+// Synthetic tickers: arithmetic over ticker prices, e.g. "CSPX.UK/IWDA.UK",
+// "WIG20-MWIG40" or "0.6*norm(VWRA.UK)+0.4*norm(VDTA.UK)".
+//
+// Tickers evaluate to their raw prices; norm(x) rebases x to 1 on the first
+// common date, which turns weights into starting value weights. A hyphen
+// before a share class suffix (BRK-B.US) is part of the symbol; other tickers
+// that contain an operator character can be quoted: "ABC-XYZ.US".
+
+export type ExpressionOperator = '+' | '-' | '*' | '/';
+
+export type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'ticker'; symbol: string }
+  | { type: 'negate'; operand: ExpressionNode }
+  | { type: 'binary'; operator: ExpressionOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'norm'; argument: ExpressionNode };
+
+export class ExpressionParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionParseError';
+  }
+}
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'word'; value: string; quoted: boolean }
+  | { kind: 'symbol'; value: string };
+
+const SYMBOL_CHARS = '+-*/()';
+const WORD_PATTERN = /[A-Za-z0-9^._:]/;
+const NUMBER_PATTERN = /^\d+(\.\d+)?$/;
+
+// Share class suffix after a hyphen, optionally with a market: "B" or "B.US"
+const CLASS_SUFFIX_PATTERN = /^[A-Za-z]{1,2}(\.[A-Za-z]{1,3})?(?![A-Za-z0-9^_:.])/;
+
+// A hyphen is part of a symbol only before a share class suffix of a symbol
+// with letters ("BRK-B.US") or inside a provider-prefixed name ("file:my-fund").
+// Otherwise it is subtraction: "WIG20-MWIG40", "^SPX-^NDX", "WIG20-2".
+function isSymbolHyphen(input: string, index: number): boolean {
+  if (input[index] !== '-' || !WORD_PATTERN.test(input[index + 1] ?? '')) return false;
+  let start = index;
+  while (start > 0 && (WORD_PATTERN.test(input[start - 1]) || input[start - 1] === '-')) start--;
+  const before = input.slice(start, index);
+  if (before.includes(':')) return true;
+  return /[A-Za-z]/.test(before) && CLASS_SUFFIX_PATTERN.test(input.slice(index + 1));
+}
+
+/**
+ * True when a ticker input should be parsed as an expression rather than a single symbol.
+ */
+export function isExpression(input: string): boolean {
+  if (/[+*/()"]/.test(input)) return true;
+  for (let i = 0; i < input.length; i++) {
+    if (input[i] === '-' && !isSymbolHyphen(input, i)) return true;
+  }
+  return false;
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (SYMBOL_CHARS.includes(char)) {
+      tokens.push({ kind: 'symbol', value: char });
+      i++;
+    } else if (char === '"') {
+      const end = input.indexOf('"', i + 1);
+      if (end < 0) throw new ExpressionParseError('Unterminated quoted ticker');
+      tokens.push({ kind: 'word', value: input.slice(i + 1, end).trim(), quoted: true });
+      i = end + 1;
+    } else if (WORD_PATTERN.test(char)) {
+      let end = i;
+      while (end < input.length && (WORD_PATTERN.test(input[end]) || isSymbolHyphen(input, end))) end++;
+      const word = input.slice(i, end);
+      tokens.push(NUMBER_PATTERN.test(word)
+        ? { kind: 'number', value: parseFloat(word) }
+        : { kind: 'word', value: word, quoted: false });
+      i = end;
+    } else {
+      throw new ExpressionParseError(`Unexpected character "${char}"`);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse an expression with the usual precedence: unary minus, then * and /,
+ * then + and -. Throws ExpressionParseError on invalid input.
+ */
+export function parseExpression(input: string): ExpressionNode {
+  const tokens = tokenize(input);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isSymbol = (value: string) => {
+    const token = peek();
+    return token?.kind === 'symbol' && token.value === value;
+  };
+  const expectSymbol = (value: string) => {
+    if (!isSymbol(value)) throw new ExpressionParseError(`Expected "${value}"`);
+    position++;
+  };
+
+  const parseSum = (): ExpressionNode => {
+    let node = parseProduct();
+    while (isSymbol('+') || isSymbol('-')) {
+      const operator = (tokens[position++] as { value: ExpressionOperator }).value;
+      node = { type: 'binary', operator, left: node, right: parseProduct() };
+    }
+    return node;
+  };
+
+  const parseProduct = (): ExpressionNode => {
+    let node = parseUnary();
+    while (isSymbol('*') || isSymbol('/')) {
+      const operator = (tokens[position++] as { value: ExpressionOperator }).value;
+      node = { type: 'binary', operator, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (isSymbol('-')) {
+      position++;
+      return { type: 'negate', operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = peek();
+    if (!token) throw new ExpressionParseError('Unexpected end of expression');
+    position++;
+
+    if (token.kind === 'number') return { type: 'number', value: token.value };
+
+    if (token.kind === 'word') {
+      if (!token.quoted && token.value.toLowerCase() === 'norm' && isSymbol('(')) {
+        position++;
+        const argument = parseSum();
+        expectSymbol(')');
+        return { type: 'norm', argument };
+      }
+      if (token.value.length === 0) throw new ExpressionParseError('Empty quoted ticker');
+      return { type: 'ticker', symbol: token.value.toUpperCase() };
+    }
+
+    if (token.value === '(') {
+      const node = parseSum();
+      expectSymbol(')');
+      return node;
+    }
+    throw new ExpressionParseError(`Unexpected "${token.value}"`);
+  };
+
+  const root = parseSum();
+  if (position < tokens.length) {
+    throw new ExpressionParseError(`Unexpected "${tokens[position].value}"`);
+  }
+  if (collectTickers(root).length === 0) {
+    throw new ExpressionParseError('Expression must reference at least one ticker');
+  }
+  return root;
+}
+
+/**
+ * Distinct ticker symbols referenced by an expression, in order of appearance.
+ */
+export function collectTickers(node: ExpressionNode): string[] {
+  switch (node.type) {
+    case 'number':
+      return [];
+    case 'ticker':
+      return [node.symbol];
+    case 'negate':
+      return collectTickers(node.operand);
+    case 'norm':
+      return collectTickers(node.argument);
+    case 'binary':
+      return Array.from(new Set([...collectTickers(node.left), ...collectTickers(node.right)]));
+  }
+}
+
+interface SeriesValues {
+  open: number[];
+  close: number[];
+}
+
+function applyOperator(operator: ExpressionOperator, a: number, b: number): number {
+  switch (operator) {
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    case '/': return a / b;
+  }
+}
+
+/**
+ * Evaluate an expression over the dates every referenced ticker has in common.
+ *
+ * Open and close are evaluated separately; high and low are their max and min,
+ * since the intraday extremes of a combination cannot be derived from its
+ * components. Rows with a non-positive or non-finite result (e.g. a negative
+ * spread) are dropped because the analytics require positive prices.
+ */
+export function evaluateExpression(
+  node: ExpressionNode,
+  series: Map<string, StooqDataPoint[]>
+): StooqDataPoint[] {
+  const tickers = collectTickers(node);
+  const byDate = tickers.map((ticker) => new Map((series.get(ticker) || []).map((p) => [p.date, p])));
+
+  const dates = Array.from(byDate[0].keys())
+    .filter((date) => byDate.every((map) => map.has(date)))
+    .sort();
+
+  const evaluate = (current: ExpressionNode): SeriesValues => {
+    switch (current.type) {
+      case 'number':
+        return { open: dates.map(() => current.value), close: dates.map(() => current.value) };
+      case 'ticker': {
+        const map = byDate[tickers.indexOf(current.symbol)];
+        return {
+          open: dates.map((date) => map.get(date)!.open),
+          close: dates.map((date) => map.get(date)!.close),
+        };
+      }
+      case 'negate': {
+        const { open, close } = evaluate(current.operand);
+        return { open: open.map((v) => -v), close: close.map((v) => -v) };
+      }
+      case 'norm': {
+        const { open, close } = evaluate(current.argument);
+        const base = close[0];
+        return { open: open.map((v) => v / base), close: close.map((v) => v / base) };
+      }
+      case 'binary': {
+        const left = evaluate(current.left);
+        const right = evaluate(current.right);
+        return {
+          open: left.open.map((v, i) => applyOperator(current.operator, v, right.open[i])),
+          close: left.close.map((v, i) => applyOperator(current.operator, v, right.close[i])),
+        };
+      }
+    }
+  };
+
+  const { open, close } = evaluate(node);
+  const data: StooqDataPoint[] = [];
+
+  dates.forEach((date, i) => {
+    if (!isFinite(close[i]) || close[i] <= 0) return;
+    const o = isFinite(open[i]) && open[i] > 0 ? open[i] : close[i];
+    data.push({
+      date,
+      open: o,
+      high: Math.max(o, close[i]),
+      low: Math.min(o, close[i]),
+      close: close[i],
+      volume: 0,
+    });
+  });
+
+  return data;
+}
@@ -0,0 +1,80 @@
+import { StooqDataPoint, TickerData, CpiPoint, CpiSeriesKind, Deflator } from './types';
+
+// Default Stooq macro ticker: Polish CPI, month on month
+export const DEFAULT_CPI_TICKER = 'CPIMPL.M';
+
+// Month-on-month values above this are read as "previous month = 100", below as percentages
+const MOM_INDEX_THRESHOLD = 50;
+
+/**
+ * Turn a monthly CPI series into index levels keyed by month.
+ * Month-on-month changes are chained starting from 100; when a month has
+ * several rows the last one wins.
+ */
+export function toCpiIndex(points: StooqDataPoint[], kind: CpiSeriesKind): CpiPoint[] {
+  const byMonth = new Map<string, number>();
+  for (const point of points) {
+    byMonth.set(point.date.slice(0, 7), point.close);
+  }
+
+  const months = Array.from(byMonth.keys()).sort();
+  if (kind === 'index') {
+    return months.map((month) => ({ month, value: byMonth.get(month)! }));
+  }
+
+  const index: CpiPoint[] = [];
+  let level = 100;
+  for (const month of months) {
+    const change = byMonth.get(month)!;
+    level *= change > MOM_INDEX_THRESHOLD ? change / 100 : 1 + change / 100;
+    index.push({ month, value: level });
+  }
+  return index;
+}
+
+/**
+ * Express a price series in money of the deflator's latest month.
+ * Each price uses the CPI of its month, or the latest earlier month when CPI
+ * has not been published yet; prices before the first CPI month are dropped.
+ */
+export function deflateSeries(data: StooqDataPoint[], deflator: Deflator): StooqDataPoint[] {
+  const { index } = deflator;
+  if (index.length === 0) return data;
+
+  const baseLevel = index[index.length - 1].value;
+  const deflated: StooqDataPoint[] = [];
+  let cpiIndex = -1;
+
+  for (const point of data) {
+    const month = point.date.slice(0, 7);
+    while (cpiIndex + 1 < index.length && index[cpiIndex + 1].month <= month) {
+      cpiIndex++;
+    }
+    if (cpiIndex < 0) continue;
+
+    const factor = baseLevel / index[cpiIndex].value;
+    deflated.push({
+      ...point,
+      open: point.open * factor,
+      high: point.high * factor,
+      low: point.low * factor,
+      close: point.close * factor,
+    });
+  }
+
+  return deflated;
+}
+
+export function deflateTickersData(tickersData: TickerData[], deflator: Deflator): TickerData[] {
+  return tickersData.map((tickerData) => ({
+    ...tickerData,
+    data: deflateSeries(tickerData.data, deflator),
+  }));
+}
+
+/**
+ * Month whose money the deflated prices are expressed in.
+ */
+export function getDeflatorBaseMonth(deflator: Deflator): string {
+  return deflator.index[deflator.index.length - 1]?.month ?? '';
+}
@@ -0,0 +1,60 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { MarketDataProvider } from '../types';
+import { StooqFetchError, StooqNotFoundError } from '../stooq';
+import { parseUploadedFile, UploadParseError } from '../upload';
+
+// Directory of local price files named after their symbol, e.g. data/MYFUND.csv.
+// Any layout accepted by the upload parser works (Stooq, Yahoo, date/close, JSON).
+const DATA_DIR = process.env.MARKET_DATA_DIR || path.join(process.cwd(), 'data');
+const FILE_EXTENSIONS = ['.csv', '.json', '.txt'];
+
+// Symbols map to file names, so no path separators or parent references
+const FILE_SYMBOL_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9._-]*$/;
+
+/**
+ * Find the file for a symbol, matching the name case-insensitively.
+ */
+async function findSymbolFile(symbol: string): Promise<string | null> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(DATA_DIR);
+  } catch {
+    return null;
+  }
+
+  const wanted = symbol.toLowerCase();
+  const match = entries.find((entry) => {
+    const ext = path.extname(entry).toLowerCase();
+    return FILE_EXTENSIONS.includes(ext) && path.basename(entry, path.extname(entry)).toLowerCase() === wanted;
+  });
+
+  return match ? path.join(DATA_DIR, match) : null;
+}
+
+export const fileProvider: MarketDataProvider = {
+  id: 'file',
+  name: 'Local files',
+  capabilities: {
+    intervals: ['d'],
+    incremental: false,
+    cacheable: false,
+  },
+  validateSymbol: (symbol) =>
+    FILE_SYMBOL_PATTERN.test(symbol) ? null : `Invalid file symbol: ${symbol}`,
+  fetchHistory: async (symbol, { fromDate } = {}) => {
+    const filePath = await findSymbolFile(symbol);
+    if (!filePath) throw new StooqNotFoundError(`file:${symbol}`);
+
+    const content = await fs.readFile(filePath, 'utf-8');
+    try {
+      const { data } = parseUploadedFile(content, filePath, symbol);
+      return fromDate ? data.filter((p) => p.date >= fromDate) : data;
+    } catch (error) {
+      if (error instanceof UploadParseError) {
+        throw new StooqFetchError(`${path.basename(filePath)}: ${error.message}`, 422, 'PARSE_ERROR');
+      }
+      throw error;
+    }
+  },
+};
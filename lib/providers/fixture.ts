@@ -0,0 +1,75 @@
+import { MarketDataProvider, StooqDataPoint } from '../types';
+import { StooqNotFoundError } from '../stooq';
+import { createRandom } from '../random';
+
+// Deterministic synthetic prices for tests and demos: the same symbol always
+// yields the same series. "fixture:MISSING" simulates an unknown symbol.
+const FIXTURE_START = '2015-01-02';
+const FIXTURE_END = '2024-12-31';
+const FIXTURE_MISSING_SYMBOL = 'MISSING';
+
+const DAILY_DRIFT = 0.0003;
+const DAILY_VOLATILITY = 0.012;
+
+function hashSymbol(symbol: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < symbol.length; i++) {
+    hash ^= symbol.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Generate a geometric random walk of weekday bars seeded by the symbol.
+ */
+export function generateFixtureSeries(symbol: string): StooqDataPoint[] {
+  const random = createRandom(hashSymbol(symbol.toUpperCase()));
+  const data: StooqDataPoint[] = [];
+  let close = 50 + random() * 150;
+
+  const date = new Date(`${FIXTURE_START}T00:00:00Z`);
+  const end = new Date(`${FIXTURE_END}T00:00:00Z`);
+
+  while (date <= end) {
+    const day = date.getUTCDay();
+    if (day !== 0 && day !== 6) {
+      const open = close;
+      // Sum of uniforms approximates a normal shock with unit variance
+      const shock = (random() + random() + random() + random() - 2) * Math.sqrt(3);
+      close = open * Math.exp(DAILY_DRIFT + DAILY_VOLATILITY * shock);
+      const range = Math.abs(close - open) + open * DAILY_VOLATILITY * random();
+
+      data.push({
+        date: date.toISOString().slice(0, 10),
+        open,
+        high: Math.max(open, close) + range * 0.5,
+        low: Math.min(open, close) - range * 0.5,
+        close,
+        volume: Math.round(100000 + random() * 900000),
+      });
+    }
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+
+  return data;
+}
+
+export const fixtureProvider: MarketDataProvider = {
+  id: 'fixture',
+  name: 'Fixtures',
+  capabilities: {
+    intervals: ['d'],
+    incremental: true,
+    cacheable: false,
+  },
+  validateSymbol: (symbol) =>
+    /^[A-Za-z0-9._-]+$/.test(symbol) ? null : `Invalid fixture symbol: ${symbol}`,
+  fetchHistory: async (symbol, { fromDate } = {}) => {
+    if (symbol.toUpperCase() === FIXTURE_MISSING_SYMBOL) {
+      throw new StooqNotFoundError(`fixture:${symbol}`);
+    }
+    const data = generateFixtureSeries(symbol);
+    return fromDate ? data.filter((p) => p.date >= fromDate) : data;
+  },
+};
@@ -0,0 +1,258 @@
+import {
+  CacheStatus,
+  MarketDataProvider,
+  StooqDataPoint,
+  SymbolCheck,
+  StooqInterval,
+  TickerCacheInfo,
+  TickerData,
+  TickerResult,
+} from '../types';
+import { StooqFetchError } from '../stooq';
+import { getOrFetch } from '../cache';
+import { resampleData } from '../statistics';
+import { isCatalogueSymbol } from '../symbols';
+import {
+  collectTickers,
+  evaluateExpression,
+  ExpressionParseError,
+  isExpression,
+  parseExpression,
+} from '../expression';
+import { stooqProvider } from './stooq';
+import { fileProvider } from './file';
+import { fixtureProvider } from './fixture';
+
+// Registered providers by ticker prefix. Tickers without a prefix go to the default.
+const PROVIDERS: MarketDataProvider[] = [stooqProvider, fileProvider, fixtureProvider];
+const DEFAULT_PROVIDER = stooqProvider;
+
+const PREFIX_PATTERN = /^([a-z][a-z0-9]*):(.+)$/i;
+
+// Most tickers accepted by one API request
+export const MAX_TICKERS = 10;
+
+type LoadedHistory = { data: StooqDataPoint[]; cache: CacheStatus; fetchedAt: string; error?: unknown };
+
+export interface ResolvedTicker {
+  provider: MarketDataProvider;
+  symbol: string;    // ticker without the provider prefix
+  canonical: string; // uppercase ticker as shown to the user and used as cache key
+}
+
+export function getProviders(): MarketDataProvider[] {
+  return PROVIDERS;
+}
+
+/**
+ * Split a ticker such as "file:MYFUND" into its provider and symbol.
+ * Throws an INVALID_SYMBOL error for unknown prefixes or symbols the provider rejects.
+ */
+export function resolveTicker(ticker: string): ResolvedTicker {
+  const match = ticker.trim().match(PREFIX_PATTERN);
+  let provider = DEFAULT_PROVIDER;
+  let symbol = ticker.trim();
+
+  if (match) {
+    const prefixed = PROVIDERS.find((p) => p.id === match[1].toLowerCase());
+    if (!prefixed) {
+      throw new StooqFetchError(
+        `Unknown data source "${match[1]}" (available: ${PROVIDERS.map((p) => p.id).join(', ')})`,
+        400,
+        'INVALID_SYMBOL'
+      );
+    }
+    provider = prefixed;
+    symbol = match[2].trim();
+  }
+
+  const invalid = provider.validateSymbol(symbol);
+  if (invalid) {
+    throw new StooqFetchError(invalid, 400, 'INVALID_SYMBOL');
+  }
+
+  const canonical = provider === DEFAULT_PROVIDER
+    ? symbol.toUpperCase()
+    : `${provider.id}:${symbol}`.toUpperCase();
+
+  return { provider, symbol, canonical };
+}
+
+/**
+ * Check a ticker or expression without loading it: every symbol must pass its
+ * provider's validation, and Stooq symbols outside the catalogue are listed
+ * as unknown. Expression syntax is left to validateTickerInput.
+ */
+export function checkTicker(ticker: string): SymbolCheck {
+  let symbols = [ticker];
+  if (isExpression(ticker)) {
+    try {
+      symbols = collectTickers(parseExpression(ticker));
+    } catch (error) {
+      return { ticker, error: error instanceof Error ? error.message : 'Invalid expression', unknown: [] };
+    }
+  }
+
+  const unknown: string[] = [];
+  for (const symbol of symbols) {
+    let resolved;
+    try {
+      resolved = resolveTicker(symbol);
+    } catch (error) {
+      return { ticker, error: error instanceof Error ? error.message : 'Invalid symbol', unknown: [] };
+    }
+    if (resolved.provider === DEFAULT_PROVIDER && !isCatalogueSymbol(resolved.symbol)) {
+      unknown.push(resolved.canonical);
+    }
+  }
+  return { ticker, unknown };
+}
+
+/**
+ * Load the history of a resolved ticker at the given interval.
+ *
+ * Intervals a provider does not serve natively are resampled from its daily
+ * bars. Cacheable providers go through the server cache; the rest are read on
+ * every request and reported as cache misses.
+ */
+export async function loadTickerHistory(
+  { provider, symbol, canonical }: ResolvedTicker,
+  interval: StooqInterval
+): Promise<LoadedHistory> {
+  const native = provider.capabilities.intervals.includes(interval);
+
+  const fetcher = async (fromDate?: string) => {
+    if (native) {
+      return provider.fetchHistory(symbol, {
+        fromDate: provider.capabilities.incremental ? fromDate : undefined,
+        interval,
+      });
+    }
+    // Resample the full daily history so the first bar is not a partial period
+    return resampleData(await provider.fetchHistory(symbol, { interval: 'd' }), interval);
+  };
+
+  if (provider.capabilities.cacheable) {
+    return getOrFetch(canonical, interval, fetcher);
+  }
+
+  const data = await fetcher();
+  return { data, cache: 'miss', fetchedAt: new Date().toISOString() };
+}
+
+/**
+ * Combined cache status of the series behind a synthetic ticker: stale if any
+ * is stale, a hit only if all are hits.
+ */
+function combineCacheStatus(statuses: CacheStatus[]): CacheStatus {
+  if (statuses.includes('stale')) return 'stale';
+  if (statuses.every((status) => status === 'hit')) return 'hit';
+  return statuses.includes('miss') ? 'miss' : 'incremental';
+}
+
+/**
+ * Load a ticker or a synthetic expression such as "CSPX.UK/IWDA.UK".
+ *
+ * Expression components are loaded as daily series, combined on their common
+ * dates and then resampled, so components from markets with different
+ * holidays still line up at weekly and longer intervals.
+ */
+export async function loadSeries(ticker: string, interval: StooqInterval): Promise<LoadedHistory> {
+  if (!isExpression(ticker)) {
+    return loadTickerHistory(resolveTicker(ticker), interval);
+  }
+
+  let expression;
+  try {
+    expression = parseExpression(ticker);
+  } catch (error) {
+    if (error instanceof ExpressionParseError) {
+      throw new StooqFetchError(`Invalid expression "${ticker}": ${error.message}`, 400, 'INVALID_SYMBOL');
+    }
+    throw error;
+  }
+
+  const symbols = collectTickers(expression);
+  const components = await Promise.all(
+    symbols.map(async (symbol) => {
+      try {
+        return await loadTickerHistory(resolveTicker(symbol), 'd');
+      } catch (error) {
+        if (error instanceof StooqFetchError) {
+          throw new StooqFetchError(`${symbol}: ${error.message}`, error.status, error.code, error.retryable);
+        }
+        throw error;
+      }
+    })
+  );
+
+  const daily = evaluateExpression(expression, new Map(symbols.map((symbol, i) => [symbol, components[i].data])));
+  if (daily.length === 0) {
+    throw new StooqFetchError(
+      `Expression "${ticker}" has no dates with a positive value shared by all its tickers`,
+      422,
+      'PARSE_ERROR'
+    );
+  }
+
+  return {
+    data: interval === 'd' ? daily : resampleData(daily, interval),
+    cache: combineCacheStatus(components.map((c) => c.cache)),
+    fetchedAt: components.map((c) => c.fetchedAt).sort()[0],
+    error: components.find((c) => c.error)?.error,
+  };
+}
+
+export interface LoadedTickers {
+  data: TickerData[];
+  results: TickerResult[];
+  cache: TickerCacheInfo[];
+  errorStatus: number | null; // HTTP status of the first failed ticker
+}
+
+function toFetchError(ticker: string, error: unknown): StooqFetchError {
+  if (error instanceof StooqFetchError) return error;
+
+  console.error(`Error fetching data for ${ticker}:`, error);
+  return new StooqFetchError(
+    error instanceof Error ? error.message : 'An unexpected error occurred',
+    500,
+    'UPSTREAM_ERROR'
+  );
+}
+
+/**
+ * Load several tickers or expressions, with a per-ticker result for each.
+ *
+ * Tickers are fetched concurrently (bounded by the scheduler); each succeeds
+ * or fails on its own so one bad symbol does not drop the rest.
+ */
+export async function loadTickers(tickers: string[], interval: StooqInterval): Promise<LoadedTickers> {
+  const outcomes = await Promise.allSettled(tickers.map((ticker) => loadSeries(ticker, interval)));
+  const loaded: LoadedTickers = { data: [], results: [], cache: [], errorStatus: null };
+
+  outcomes.forEach((outcome, index) => {
+    const ticker = tickers[index];
+    const symbol = ticker.toUpperCase();
+
+    if (outcome.status === 'rejected') {
+      const error = toFetchError(ticker, outcome.reason);
+      loaded.errorStatus = loaded.errorStatus ?? error.status;
+      loaded.results.push({ ticker: symbol, status: 'error', errorCode: error.code, error: error.message });
+      return;
+    }
+
+    const { data, cache, fetchedAt } = outcome.value;
+    loaded.data.push({ ticker: symbol, data });
+    loaded.cache.push({ ticker: symbol, cache, fetchedAt });
+
+    if (cache === 'stale') {
+      const error = toFetchError(ticker, outcome.value.error);
+      loaded.results.push({ ticker: symbol, status: 'stale', fetchedAt, errorCode: error.code, error: error.message });
+    } else {
+      loaded.results.push({ ticker: symbol, status: 'ok', fetchedAt });
+    }
+  });
+
+  return loaded;
+}
@@ -0,0 +1,16 @@
+import { MarketDataProvider } from '../types';
+import { stooqScheduler, STOOQ_SYMBOL_PATTERN } from '../stooq';
+
+export const stooqProvider: MarketDataProvider = {
+  id: 'stooq',
+  name: 'Stooq',
+  capabilities: {
+    intervals: ['d', 'w', 'm', 'q', 'y'],
+    incremental: true,
+    cacheable: true,
+  },
+  validateSymbol: (symbol) =>
+    STOOQ_SYMBOL_PATTERN.test(symbol) ? null : `Invalid Stooq symbol: ${symbol}`,
+  fetchHistory: (symbol, { fromDate, interval = 'd' } = {}) =>
+    stooqScheduler.fetch(symbol, fromDate, interval),
+};
@@ -0,0 +1,251 @@
+import {
+  StooqDataPoint,
+  TickerData,
+  DataQualityIssue,
+  DataQualityReport,
+  DataQualityMode,
+} from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Gaps longer than this many calendar days (or GAP_MULTIPLE x the usual spacing) are flagged
+const GAP_MIN_DAYS = 10;
+const GAP_MULTIPLE = 5;
+
+// A one-bar move counts as a bad print when it is this many robust standard
+// deviations (and at least OUTLIER_MIN_MOVE in log terms) and reverts on the next bar
+const OUTLIER_SIGMAS = 10;
+const OUTLIER_MIN_MOVE = Math.log(1.25);
+
+// Identical closes in a row before the repeats are flagged
+const STALE_MIN_RUN = 5;
+
+// Split ratios checked for large one-bar moves that do not revert
+const SPLIT_RATIOS = [2, 3, 4, 5, 8, 10, 15, 20, 25, 50, 100];
+const SPLIT_TOLERANCE = 0.03;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function daysBetween(start: string, end: string): number {
+  return Math.round((new Date(end).getTime() - new Date(start).getTime()) / DAY_MS);
+}
+
+function formatPercent(logReturn: number): string {
+  const pct = (Math.exp(logReturn) - 1) * 100;
+  return `${pct >= 0 ? '+' : ''}${pct.toFixed(1)}%`;
+}
+
+/**
+ * Match a price ratio (new / old) to a common split ratio, e.g. 0.5 for a 2:1 split.
+ */
+function matchSplitRatio(ratio: number): number | null {
+  for (const n of SPLIT_RATIOS) {
+    for (const candidate of [1 / n, n]) {
+      if (Math.abs(ratio / candidate - 1) <= SPLIT_TOLERANCE) return candidate;
+    }
+  }
+  return null;
+}
+
+function findGaps(data: StooqDataPoint[]): DataQualityIssue[] {
+  const spacings = data.slice(1).map((point, i) => daysBetween(data[i].date, point.date));
+  const threshold = Math.max(GAP_MIN_DAYS, median(spacings) * GAP_MULTIPLE);
+
+  const issues: DataQualityIssue[] = [];
+  spacings.forEach((days, i) => {
+    if (days > threshold) {
+      issues.push({
+        type: 'gap',
+        date: data[i + 1].date,
+        message: `${days}-day gap after ${data[i].date}`,
+      });
+    }
+  });
+  return issues;
+}
+
+/**
+ * Find bad prints (spike and reversal) and suspected unadjusted splits
+ * (a split-sized move that persists).
+ */
+function findJumps(data: StooqDataPoint[]): DataQualityIssue[] {
+  const logReturns = data.slice(1).map((point, i) => Math.log(point.close / data[i].close));
+  const center = median(logReturns);
+  // Median absolute deviation scaled to a normal standard deviation
+  const sigma = 1.4826 * median(logReturns.map((r) => Math.abs(r - center)));
+  const threshold = Math.max(OUTLIER_MIN_MOVE, OUTLIER_SIGMAS * sigma);
+
+  const issues: DataQualityIssue[] = [];
+
+  for (let i = 0; i < logReturns.length; i++) {
+    const move = logReturns[i];
+    if (Math.abs(move) <= threshold) continue;
+
+    const next = logReturns[i + 1];
+    const reverts = next !== undefined
+      && Math.abs(next) > threshold
+      && Math.sign(next) !== Math.sign(move)
+      && Math.abs(move + next) < threshold / 2;
+
+    if (reverts) {
+      issues.push({
+        type: 'outlier',
+        date: data[i + 1].date,
+        message: `${formatPercent(move)} spike reversed next bar (${formatPercent(next)})`,
+      });
+      i++; // the reversal belongs to the same bad print
+      continue;
+    }
+
+    const factor = matchSplitRatio(Math.exp(move));
+    if (factor !== null) {
+      const label = factor < 1 ? `${Math.round(1 / factor)}:1 split` : `1:${Math.round(factor)} reverse split`;
+      issues.push({
+        type: 'split',
+        date: data[i + 1].date,
+        message: `${formatPercent(move)} move matches a ${label}`,
+        factor,
+      });
+    }
+  }
+
+  return issues;
+}
+
+function findStaleCloses(data: StooqDataPoint[]): DataQualityIssue[] {
+  const issues: DataQualityIssue[] = [];
+  let runStart = 0;
+
+  for (let i = 1; i <= data.length; i++) {
+    if (i < data.length && data[i].close === data[runStart].close) continue;
+
+    const runLength = i - runStart;
+    if (runLength >= STALE_MIN_RUN) {
+      for (let j = runStart + 1; j < i; j++) {
+        issues.push({
+          type: 'stale',
+          date: data[j].date,
+          message: `Close ${data[j].close} repeated ${runLength} times since ${data[runStart].date}`,
+        });
+      }
+    }
+    runStart = i;
+  }
+
+  return issues;
+}
+
+function findOhlcInconsistencies(data: StooqDataPoint[]): DataQualityIssue[] {
+  const issues: DataQualityIssue[] = [];
+
+  for (const { date, open, high, low, close } of data) {
+    const problems: string[] = [];
+    if (low > high) problems.push('low > high');
+    if (close > high || open > high) problems.push('open/close above high');
+    if (close < low || open < low) problems.push('open/close below low');
+    if (open <= 0 || low <= 0) problems.push('non-positive price');
+
+    if (problems.length > 0) {
+      issues.push({ type: 'ohlc', date, message: problems.join(', ') });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check a series for gaps, bad prints, stale repeated closes, inconsistent
+ * OHLC bars and suspected unadjusted splits. Issues are sorted by date.
+ */
+export function analyzeDataQuality(tickerData: TickerData): DataQualityReport {
+  const { ticker, data } = tickerData;
+
+  const issues = data.length < 2
+    ? []
+    : [
+        ...findGaps(data),
+        ...findJumps(data),
+        ...findStaleCloses(data),
+        ...findOhlcInconsistencies(data),
+      ].sort((a, b) => a.date.localeCompare(b.date));
+
+  return { ticker, rowCount: data.length, issues };
+}
+
+/**
+ * Remove or repair flagged rows before analysis.
+ *
+ * exclude: drops bad prints, stale repeats and inconsistent bars.
+ * patch: replaces bad prints with the geometric mean of their neighbours,
+ * widens inconsistent high/low to cover open and close, back-adjusts prices
+ * before suspected splits, and drops stale repeats (they cannot be recovered).
+ * Gaps are reported only.
+ */
+export function applyDataQualityFixes(
+  data: StooqDataPoint[],
+  report: DataQualityReport,
+  mode: DataQualityMode
+): StooqDataPoint[] {
+  if (mode === 'flag' || report.issues.length === 0) return data;
+
+  const flagged = new Map<string, Set<string>>();
+  const splitFactors = new Map<string, number>();
+  for (const issue of report.issues) {
+    if (!flagged.has(issue.date)) flagged.set(issue.date, new Set());
+    flagged.get(issue.date)!.add(issue.type);
+    if (issue.type === 'split' && issue.factor) splitFactors.set(issue.date, issue.factor);
+  }
+
+  const isFlagged = (date: string, type: string) => flagged.get(date)?.has(type) ?? false;
+
+  if (mode === 'exclude') {
+    return data.filter(
+      (p) => !isFlagged(p.date, 'outlier') && !isFlagged(p.date, 'stale') && !isFlagged(p.date, 'ohlc')
+    );
+  }
+
+  const patched: StooqDataPoint[] = [];
+  // Walk backwards so each split scales every earlier row
+  let scale = 1;
+
+  for (let i = data.length - 1; i >= 0; i--) {
+    let point = data[i];
+
+    if (!isFlagged(point.date, 'stale')) {
+      if (isFlagged(point.date, 'outlier') && i > 0 && i < data.length - 1) {
+        const close = Math.sqrt(data[i - 1].close * data[i + 1].close);
+        point = { ...point, open: close, high: close, low: close, close };
+      } else if (isFlagged(point.date, 'ohlc')) {
+        const prices = [point.open, point.high, point.low, point.close].filter((v) => v > 0);
+        point = {
+          ...point,
+          open: point.open > 0 ? point.open : point.close,
+          high: Math.max(...prices),
+          low: Math.min(...prices),
+        };
+      }
+
+      patched.push(
+        scale === 1
+          ? point
+          : {
+              ...point,
+              open: point.open * scale,
+              high: point.high * scale,
+              low: point.low * scale,
+              close: point.close * scale,
+              volume: point.volume / scale,
+            }
+      );
+    }
+
+    scale *= splitFactors.get(point.date) ?? 1;
+  }
+
+  return patched.reverse();
+}
@@ -0,0 +1,13 @@
+// Seeded pseudo-random numbers, for output that must be reproducible
+// (fixture series, bootstrap resampling).
+
+// mulberry32 - small seedable PRNG returning values in [0, 1)
+export function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,193 @@
+import {
+  StooqDataPoint,
+  ValueAtRiskReport,
+  VarEstimate,
+  VarHorizon,
+  VarMethod,
+  VAR_CONFIDENCE_LEVELS,
+  VAR_HORIZONS,
+} from './types';
+import {
+  calculateMoments,
+  detectPeriodsPerYear,
+  normalDensity,
+  normalQuantile,
+  ReturnMoments,
+  TRADING_DAYS_PER_YEAR,
+} from './statistics';
+import { createRandom } from './random';
+
+// Value at Risk and Expected Shortfall (CVaR) of simple returns. Losses are
+// reported as positive percentages of the position value.
+
+// Fewer one-bar returns than this and no report is produced
+const MIN_RETURNS = 20;
+
+// Bootstrap: resampled horizon paths, with a fixed seed so results are stable between renders
+const BOOTSTRAP_SAMPLES = 10000;
+const BOOTSTRAP_SEED = 20240101;
+
+// Tail quantiles averaged for the Cornish-Fisher expected shortfall
+const CORNISH_FISHER_TAIL_STEPS = 50;
+
+export const VAR_METHOD_LABELS: Record<VarMethod, string> = {
+  historical: 'Historical',
+  normal: 'Normal',
+  cornishFisher: 'Cornish-Fisher',
+  bootstrap: 'Bootstrap',
+};
+
+/**
+ * Length of a horizon in bars of a series with `periodsPerYear` observations.
+ * 1d and 10d are trading days (one bar each for daily data), 1m is a twelfth
+ * of a year. Below one bar for weekly and slower data.
+ */
+export function horizonBars(horizon: VarHorizon, periodsPerYear: number): number {
+  if (horizon === '1m') return periodsPerYear / 12;
+  const days = horizon === '10d' ? 10 : 1;
+  return periodsPerYear >= TRADING_DAYS_PER_YEAR ? days : (days * periodsPerYear) / TRADING_DAYS_PER_YEAR;
+}
+
+/**
+ * Overlapping compounded returns over `bars` consecutive bars.
+ */
+export function calculateHorizonReturns(data: StooqDataPoint[], bars: number): number[] {
+  const returns: number[] = [];
+  for (let i = bars; i < data.length; i++) {
+    const start = data[i - bars].close;
+    if (start > 0) returns.push(data[i].close / start - 1);
+  }
+  return returns;
+}
+
+// Quantile of sorted values with linear interpolation
+function quantile(sorted: number[], p: number): number {
+  const pos = p * (sorted.length - 1);
+  const lower = Math.floor(pos);
+  const upper = Math.min(sorted.length - 1, lower + 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
+// VaR and CVaR as loss fractions of an empirical sample
+function empiricalTail(returns: number[], confidence: number): { valueAtRisk: number; expectedShortfall: number } {
+  const sorted = [...returns].sort((a, b) => a - b);
+  const cutoff = quantile(sorted, 1 - confidence);
+  const tail = sorted.filter(r => r <= cutoff);
+  return {
+    valueAtRisk: -cutoff,
+    expectedShortfall: -tail.reduce((sum, r) => sum + r, 0) / tail.length,
+  };
+}
+
+// Standard normal quantile adjusted for skewness and excess kurtosis
+function cornishFisherQuantile(p: number, skewness: number, excessKurtosis: number): number {
+  const z = normalQuantile(p);
+  return z
+    + ((z * z - 1) * skewness) / 6
+    + ((z * z * z - 3 * z) * excessKurtosis) / 24
+    - ((2 * z * z * z - 5 * z) * skewness * skewness) / 36;
+}
+
+// Horizon returns compounded from one-bar returns drawn with replacement
+function bootstrapReturns(returns: number[], bars: number): number[] {
+  const random = createRandom(BOOTSTRAP_SEED);
+  const samples: number[] = [];
+  for (let s = 0; s < BOOTSTRAP_SAMPLES; s++) {
+    let growth = 1;
+    for (let b = 0; b < bars; b++) {
+      growth *= 1 + returns[Math.floor(random() * returns.length)];
+    }
+    samples.push(growth - 1);
+  }
+  return samples;
+}
+
+function parametricEstimate(
+  method: 'normal' | 'cornishFisher',
+  moments: ReturnMoments,
+  bars: number,
+  confidence: number
+): { valueAtRisk: number; expectedShortfall: number } {
+  // Square-root-of-time scaling; skewness and excess kurtosis shrink as for a sum of i.i.d. returns
+  const mu = moments.mean * bars;
+  const sigma = moments.std * Math.sqrt(bars);
+  const tailProbability = 1 - confidence;
+
+  if (method === 'normal') {
+    const z = normalQuantile(tailProbability);
+    return {
+      valueAtRisk: -(mu + z * sigma),
+      expectedShortfall: -(mu - (sigma * normalDensity(z)) / tailProbability),
+    };
+  }
+
+  const skewness = moments.skewness / Math.sqrt(bars);
+  const excessKurtosis = moments.excessKurtosis / bars;
+  // Expected shortfall as the average Cornish-Fisher quantile across the tail
+  let tailSum = 0;
+  for (let i = 0; i < CORNISH_FISHER_TAIL_STEPS; i++) {
+    const p = (tailProbability * (i + 0.5)) / CORNISH_FISHER_TAIL_STEPS;
+    tailSum += cornishFisherQuantile(p, skewness, excessKurtosis);
+  }
+  return {
+    valueAtRisk: -(mu + cornishFisherQuantile(tailProbability, skewness, excessKurtosis) * sigma),
+    expectedShortfall: -(mu + (tailSum / CORNISH_FISHER_TAIL_STEPS) * sigma),
+  };
+}
+
+/**
+ * Historical, parametric (normal and Cornish-Fisher) and bootstrap VaR and
+ * CVaR at every confidence level and horizon. Historical estimates use
+ * overlapping horizon returns; horizons shorter than one bar, or with too few
+ * overlapping returns, scale the one-bar figure by the square root of time.
+ * Returns null with fewer than 20 returns.
+ */
+export function calculateValueAtRisk(
+  ticker: string,
+  data: StooqDataPoint[],
+  periodsPerYear: number = detectPeriodsPerYear(data)
+): ValueAtRiskReport | null {
+  const returns = calculateHorizonReturns(data, 1);
+  if (returns.length < MIN_RETURNS) return null;
+
+  const moments = calculateMoments(returns);
+  const estimates: VarEstimate[] = [];
+
+  for (const horizon of VAR_HORIZONS) {
+    const bars = horizonBars(horizon, periodsPerYear);
+    const wholeBars = Math.max(1, Math.round(bars));
+    const scale = bars < 1 ? Math.sqrt(bars) : 1;
+
+    const horizonReturns = calculateHorizonReturns(data, wholeBars);
+    const historicalReturns = horizonReturns.length >= MIN_RETURNS ? horizonReturns : returns;
+    const historicalScale = horizonReturns.length >= MIN_RETURNS ? scale : Math.sqrt(bars);
+    const bootstrapped = bootstrapReturns(returns, wholeBars);
+
+    for (const confidence of VAR_CONFIDENCE_LEVELS) {
+      const results: Record<VarMethod, { valueAtRisk: number; expectedShortfall: number }> = {
+        historical: empiricalTail(historicalReturns, confidence),
+        normal: parametricEstimate('normal', moments, bars, confidence),
+        cornishFisher: parametricEstimate('cornishFisher', moments, bars, confidence),
+        bootstrap: empiricalTail(bootstrapped, confidence),
+      };
+      const scales: Record<VarMethod, number> = {
+        historical: historicalScale,
+        normal: 1,
+        cornishFisher: 1,
+        bootstrap: scale,
+      };
+
+      for (const method of Object.keys(results) as VarMethod[]) {
+        estimates.push({
+          method,
+          confidence,
+          horizon,
+          valueAtRisk: results[method].valueAtRisk * scales[method] * 100,
+          expectedShortfall: results[method].expectedShortfall * scales[method] * 100,
+        });
+      }
+    }
+  }
+
+  return { ticker, observations: returns.length, periodsPerYear, estimates };
+}
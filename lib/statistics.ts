@@ -3,6 +3,7 @@ import {
   Statistics,
   ChartDataPoint,
   TickerData,
+  DateRangePreset,
   TrendSignal,
   MonthlyDataPoint,
   TrendFollowingChartPoint,
@@ -10,12 +11,61 @@ import {
   StrategyStatistics,
   TrendFollowingAnalysis,
   RollingReturnDataPoint,
+  StooqInterval,
+  BenchmarkReturnFrequency,
+  BenchmarkStatistics,
+  CorrelationFrequency,
+  RollingCorrelationWindow,
+  DistributionFrequency,
 } from './types';
 
 const RISK_FREE_RATE = 0.02; // 2% annual risk-free rate assumption
-const TRADING_DAYS_PER_YEAR = 252;
+export const TRADING_DAYS_PER_YEAR = 252;
+const CALENDAR_DAYS_PER_YEAR = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-export function calculateStatistics(ticker: string, data: StooqDataPoint[]): Statistics {
+/**
+ * Infer how many observations per year a series has from its dates:
+ * 252 for exchange-traded daily data, 365 for daily data that trades on
+ * weekends (e.g. crypto), and 52/12/4/1 for weekly, monthly, quarterly and yearly bars.
+ */
+export function detectPeriodsPerYear(data: StooqDataPoint[]): number {
+  return detectPeriodsPerYearOfDates(data.map(p => p.date));
+}
+
+// detectPeriodsPerYear over sorted YYYY-MM-DD dates
+function detectPeriodsPerYearOfDates(dates: string[]): number {
+  if (dates.length < 3) return TRADING_DAYS_PER_YEAR;
+
+  const gaps: number[] = [];
+  for (let i = 1; i < dates.length; i++) {
+    gaps.push((new Date(dates[i]).getTime() - new Date(dates[i - 1]).getTime()) / DAY_MS);
+  }
+  gaps.sort((a, b) => a - b);
+  const medianGap = gaps[Math.floor(gaps.length / 2)];
+
+  if (medianGap <= 4) {
+    const weekendPoints = dates.filter(date => {
+      const day = new Date(date).getUTCDay();
+      return day === 0 || day === 6;
+    }).length;
+    // A 7-day week puts ~2/7 of observations on weekends
+    return weekendPoints / dates.length > 0.1 ? CALENDAR_DAYS_PER_YEAR : TRADING_DAYS_PER_YEAR;
+  }
+  if (medianGap <= 10) return 52;
+  if (medianGap <= 45) return 12;
+  if (medianGap <= 135) return 4;
+  return 1;
+}
+
+export const DEFAULT_MIN_ACCEPTABLE_RETURN = 0; // annual, as a fraction
+
+export function calculateStatistics(
+  ticker: string,
+  data: StooqDataPoint[],
+  periodsPerYear: number = detectPeriodsPerYear(data),
+  minAcceptableReturn: number = DEFAULT_MIN_ACCEPTABLE_RETURN
+): Statistics {
   if (data.length < 2) {
     throw new Error('Insufficient data to calculate statistics');
   }
@@ -65,7 +115,7 @@ export function calculateStatistics(ticker: string, data: StooqDataPoint[]): Sta
     calculateSessionStats(data);
 
   // Annualized standard deviation
-  const annualizedStd = calculateAnnualizedStd(dailyReturns);
+  const annualizedStd = calculateAnnualizedStd(dailyReturns, periodsPerYear);
 
   // Sharpe ratio
   const annualizedReturn = cagr / 100;
@@ -76,6 +126,11 @@ export function calculateStatistics(ticker: string, data: StooqDataPoint[]): Sta
   // Calculate YTD, 1Y, 3Y returns
   const { ytdReturn, oneYearReturn, threeYearReturn } = calculatePeriodReturns(data);
 
+  // Downside and path-dependent ratios
+  const riskAdjusted = calculateRiskAdjustedStats(
+    data, dailyReturns, annualizedReturn, maxDrawdown, periodsPerYear, minAcceptableReturn
+  );
+
   return {
     ticker,
     startDate,
@@ -104,6 +159,9 @@ export function calculateStatistics(ticker: string, data: StooqDataPoint[]): Sta
     avgLossSession,
     annualizedStd: annualizedStd * 100, // Convert to percentage
     sharpeRatio,
+    periodsPerYear,
+    minAcceptableReturn: minAcceptableReturn * 100,
+    ...riskAdjusted,
   };
 }
 
@@ -208,15 +266,80 @@ function calculateSessionStats(data: StooqDataPoint[]): {
   };
 }
 
-function calculateAnnualizedStd(dailyReturns: number[]): number {
-  if (dailyReturns.length < 2) return 0;
+function calculateAnnualizedStd(periodReturns: number[], periodsPerYear: number): number {
+  if (periodReturns.length < 2) return 0;
+
+  const mean = periodReturns.reduce((a, b) => a + b, 0) / periodReturns.length;
+  const squaredDiffs = periodReturns.map(r => Math.pow(r - mean, 2));
+  const variance = squaredDiffs.reduce((a, b) => a + b, 0) / (periodReturns.length - 1);
+  const periodStd = Math.sqrt(variance);
+
+  return periodStd * Math.sqrt(periodsPerYear);
+}
+
+/**
+ * Sortino, Calmar, Ulcer Index, Martin, pain index, Omega and gain-to-pain.
+ * `annualizedReturn` (CAGR) and `minAcceptableReturn` are annual fractions,
+ * `maxDrawdown` a percentage. The MAR is de-annualized for per-period comparisons.
+ */
+function calculateRiskAdjustedStats(
+  data: StooqDataPoint[],
+  periodReturns: number[],
+  annualizedReturn: number,
+  maxDrawdown: number,
+  periodsPerYear: number,
+  minAcceptableReturn: number
+): Pick<Statistics,
+  'sortinoRatio' | 'calmarRatio' | 'ulcerIndex' | 'martinRatio' | 'painIndex' | 'omegaRatio' | 'gainToPainRatio'
+> {
+  const periodMar = Math.pow(1 + minAcceptableReturn, 1 / periodsPerYear) - 1;
+  const excessReturn = annualizedReturn - minAcceptableReturn;
+
+  // Sortino: excess return over downside deviation below the MAR
+  let downsideSquares = 0;
+  let gainsAboveMar = 0;
+  let lossesBelowMar = 0;
+  for (const r of periodReturns) {
+    if (r < periodMar) {
+      downsideSquares += Math.pow(r - periodMar, 2);
+      lossesBelowMar += periodMar - r;
+    } else {
+      gainsAboveMar += r - periodMar;
+    }
+  }
+  const downsideDeviation = periodReturns.length > 0
+    ? Math.sqrt(downsideSquares / periodReturns.length) * Math.sqrt(periodsPerYear)
+    : 0;
+  const sortinoRatio = downsideDeviation > 0 ? excessReturn / downsideDeviation : 0;
+
+  // Calmar over the whole range rather than the classic trailing 36 months
+  const calmarRatio = maxDrawdown > 0 ? annualizedReturn / (maxDrawdown / 100) : 0;
 
-  const mean = dailyReturns.reduce((a, b) => a + b, 0) / dailyReturns.length;
-  const squaredDiffs = dailyReturns.map(r => Math.pow(r - mean, 2));
-  const variance = squaredDiffs.reduce((a, b) => a + b, 0) / (dailyReturns.length - 1);
-  const dailyStd = Math.sqrt(variance);
+  // Ulcer Index (RMS) and pain index (mean) of the percentage drawdowns
+  const drawdowns = calculateDrawdownSeries(data).data.map(d => -d.drawdown);
+  const ulcerIndex = Math.sqrt(drawdowns.reduce((sum, d) => sum + d * d, 0) / drawdowns.length);
+  const painIndex = drawdowns.reduce((sum, d) => sum + d, 0) / drawdowns.length;
+  const martinRatio = ulcerIndex > 0 ? (excessReturn * 100) / ulcerIndex : 0;
+
+  const omegaRatio = lossesBelowMar > 0 ? gainsAboveMar / lossesBelowMar : null;
+
+  // Gain-to-pain (Schwager): sum of monthly returns over the sum of monthly losses
+  const monthEndCloses = new Map<string, number>();
+  for (const point of data) {
+    monthEndCloses.set(point.date.substring(0, 7), point.close);
+  }
+  let prevClose = data[0].close;
+  let monthlySum = 0;
+  let monthlyLosses = 0;
+  Array.from(monthEndCloses.values()).forEach((close) => {
+    const monthReturn = (close - prevClose) / prevClose;
+    monthlySum += monthReturn;
+    if (monthReturn < 0) monthlyLosses -= monthReturn;
+    prevClose = close;
+  });
+  const gainToPainRatio = monthlyLosses > 0 ? monthlySum / monthlyLosses : null;
 
-  return dailyStd * Math.sqrt(TRADING_DAYS_PER_YEAR);
+  return { sortinoRatio, calmarRatio, ulcerIndex, martinRatio, painIndex, omegaRatio, gainToPainRatio };
 }
 
 function calculatePeriodReturns(data: StooqDataPoint[]): {
@@ -402,6 +525,88 @@ export function getDateRange(tickersData: TickerData[]): { minDate: string; maxD
   return { minDate, maxDate };
 }
 
+/**
+ * Start and end date of a quick range preset, clamped to the available range.
+ */
+export function resolveDateRangePreset(
+  preset: DateRangePreset,
+  minDate: string,
+  maxDate: string
+): { start: string; end: string } {
+  const end = new Date(maxDate);
+  let start: Date;
+
+  switch (preset) {
+    case 'Max':
+      return { start: minDate, end: maxDate };
+    case 'YTD':
+      start = new Date(end.getFullYear(), 0, 1);
+      break;
+    case '1M':
+    case '3M':
+    case '6M':
+      start = new Date(end);
+      start.setMonth(start.getMonth() - parseInt(preset, 10));
+      break;
+    default:
+      start = new Date(end);
+      start.setFullYear(start.getFullYear() - parseInt(preset, 10));
+  }
+
+  const startStr = start.toISOString().split('T')[0];
+  return { start: startStr < minDate ? minDate : startStr, end: maxDate };
+}
+
+// Key identifying the period a date falls into for the given interval
+function periodKey(date: string, interval: StooqInterval): string {
+  switch (interval) {
+    case 'w': {
+      // Monday of the week
+      const d = new Date(`${date}T00:00:00Z`);
+      d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+      return d.toISOString().slice(0, 10);
+    }
+    case 'm':
+      return date.substring(0, 7);
+    case 'q':
+      return `${date.substring(0, 4)}-Q${Math.floor((parseInt(date.substring(5, 7)) - 1) / 3) + 1}`;
+    case 'y':
+      return date.substring(0, 4);
+    default:
+      return date;
+  }
+}
+
+/**
+ * Resample daily bars into weekly, monthly, quarterly or yearly OHLCV bars.
+ * Each bar is dated on the last trading day of its period.
+ */
+export function resampleData(data: StooqDataPoint[], interval: StooqInterval): StooqDataPoint[] {
+  if (interval === 'd' || data.length === 0) return data;
+
+  const result: StooqDataPoint[] = [];
+  let currentKey: string | null = null;
+
+  for (const point of data) {
+    const key = periodKey(point.date, interval);
+
+    if (key !== currentKey) {
+      result.push({ ...point });
+      currentKey = key;
+      continue;
+    }
+
+    const bar = result[result.length - 1];
+    bar.date = point.date;
+    bar.high = Math.max(bar.high, point.high);
+    bar.low = Math.min(bar.low, point.low);
+    bar.close = point.close;
+    bar.volume += point.volume;
+  }
+
+  return result;
+}
+
 export interface DrawdownDataPoint {
   date: string;
   drawdown: number;
@@ -456,6 +661,58 @@ export function calculateDrawdownSeries(data: StooqDataPoint[]): DrawdownSeries
   };
 }
 
+export interface DrawdownEpisode {
+  peakDate: string;
+  troughDate: string;
+  recoveryDate: string | null; // null while the drawdown is still open
+  depth: number;               // positive percentage below the peak at the trough
+  daysToTrough: number;        // calendar days from peak to trough
+  daysToRecovery: number | null; // calendar days from peak to recovery
+}
+
+/**
+ * Split a price series into drawdown episodes: from a peak to the first close
+ * back at or above it. Returned in date order; the last one may be open.
+ */
+export function calculateDrawdownEpisodes(data: StooqDataPoint[]): DrawdownEpisode[] {
+  const episodes: DrawdownEpisode[] = [];
+  const days = (from: string, to: string) => Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
+
+  let peak = data[0]?.close ?? 0;
+  let peakDate = data[0]?.date ?? '';
+  let trough: { date: string; depth: number } | null = null;
+
+  const closeEpisode = (recoveryDate: string | null) => {
+    if (!trough) return;
+    episodes.push({
+      peakDate,
+      troughDate: trough.date,
+      recoveryDate,
+      depth: trough.depth,
+      daysToTrough: days(peakDate, trough.date),
+      daysToRecovery: recoveryDate ? days(peakDate, recoveryDate) : null,
+    });
+    trough = null;
+  };
+
+  for (const point of data) {
+    if (point.close >= peak) {
+      closeEpisode(point.date);
+      peak = point.close;
+      peakDate = point.date;
+      continue;
+    }
+
+    const depth = ((peak - point.close) / peak) * 100;
+    if (!trough || depth > trough.depth) {
+      trough = { date: point.date, depth };
+    }
+  }
+  closeEpisode(null);
+
+  return episodes;
+}
+
 // Simple Moving Average calculation for daily data
 export function calculateSMA(
   data: StooqDataPoint[],
@@ -573,7 +830,10 @@ export function calculateQuarterlyReturns(years: YearlyData[]): PeriodicReturnPo
   return result;
 }
 
-export function calculateReturnsTable(data: StooqDataPoint[]): ReturnsTableData {
+export function calculateReturnsTable(
+  data: StooqDataPoint[],
+  periodsPerYear: number = detectPeriodsPerYear(data)
+): ReturnsTableData {
   if (data.length < 2) {
     return { years: [] };
   }
@@ -721,24 +981,19 @@ export function calculateReturnsTable(data: StooqDataPoint[]): ReturnsTableData
       };
     }
 
-    // Calculate annual standard deviation (volatility) of daily returns
+    // Calculate annual standard deviation (volatility) of period returns
     let annualStd: number | null = null;
     if (yearDataPoints.length >= 2) {
       yearDataPoints.sort((a, b) => a.date.localeCompare(b.date));
-      const dailyReturns: number[] = [];
+      const periodReturns: number[] = [];
       for (let i = 1; i < yearDataPoints.length; i++) {
         const prevClose = yearDataPoints[i - 1].close;
         const currClose = yearDataPoints[i].close;
-        dailyReturns.push((currClose - prevClose) / prevClose);
+        periodReturns.push((currClose - prevClose) / prevClose);
       }
 
-      if (dailyReturns.length >= 2) {
-        const mean = dailyReturns.reduce((a, b) => a + b, 0) / dailyReturns.length;
-        const squaredDiffs = dailyReturns.map(r => Math.pow(r - mean, 2));
-        const variance = squaredDiffs.reduce((a, b) => a + b, 0) / (dailyReturns.length - 1);
-        const dailyStd = Math.sqrt(variance);
-        // Annualize: multiply by sqrt(252 trading days)
-        annualStd = dailyStd * Math.sqrt(252) * 100;
+      if (periodReturns.length >= 2) {
+        annualStd = calculateAnnualizedStd(periodReturns, periodsPerYear) * 100;
       }
     }
 
@@ -828,6 +1083,485 @@ export function calculateRollingReturns(
   return result;
 }
 
+// ============================================
+// BENCHMARK-RELATIVE STATISTICS
+// ============================================
+
+export interface AlignedReturn {
+  date: string; // YYYY-MM for monthly returns
+  asset: number;
+  benchmark: number;
+}
+
+// Returns of two series over the same period
+export interface PairReturn {
+  date: string; // last date of the period
+  a: number;
+  b: number;
+}
+
+interface DatedClose {
+  date: string;
+  close: number;
+}
+
+// Last close of each period (every date for 'd')
+function closesByPeriod(points: DatedClose[], interval: StooqInterval): Map<string, DatedClose> {
+  const closes = new Map<string, DatedClose>();
+  for (const point of points) {
+    closes.set(periodKey(point.date, interval), { date: point.date, close: point.close });
+  }
+  return closes;
+}
+
+// Simple returns of two series between the periods both have a close for
+function alignReturns(first: Map<string, DatedClose>, second: Map<string, DatedClose>): PairReturn[] {
+  const periods = Array.from(first.keys()).filter(key => second.has(key)).sort();
+
+  const result: PairReturn[] = [];
+  for (let i = 1; i < periods.length; i++) {
+    const prevA = first.get(periods[i - 1])!.close;
+    const prevB = second.get(periods[i - 1])!.close;
+    if (prevA <= 0 || prevB <= 0) continue;
+
+    const current = first.get(periods[i])!;
+    result.push({
+      date: current.date,
+      a: current.close / prevA - 1,
+      b: second.get(periods[i])!.close / prevB - 1,
+    });
+  }
+  return result;
+}
+
+/**
+ * Simple returns of two series between the dates (or months) both have a close for.
+ */
+export function calculateAlignedReturns(
+  data: StooqDataPoint[],
+  benchmarkData: StooqDataPoint[],
+  frequency: BenchmarkReturnFrequency
+): AlignedReturn[] {
+  const interval: StooqInterval = frequency === 'monthly' ? 'm' : 'd';
+  return alignReturns(closesByPeriod(data, interval), closesByPeriod(benchmarkData, interval)).map(r => ({
+    date: frequency === 'monthly' ? r.date.substring(0, 7) : r.date,
+    asset: r.a,
+    benchmark: r.b,
+  }));
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+// Sample covariance
+function covariance(a: number[], b: number[]): number {
+  if (a.length < 2) return 0;
+  const meanA = mean(a);
+  const meanB = mean(b);
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += (a[i] - meanA) * (b[i] - meanB);
+  }
+  return sum / (a.length - 1);
+}
+
+/**
+ * Beta, Jensen's alpha, correlation, tracking error, information ratio and
+ * up/down capture of `data` against `benchmarkData`. Daily returns are
+ * annualized with `periodsPerYear`, by default detected from the dates both
+ * series share (a crypto asset against a stock index trades on the index's
+ * days), and monthly ones with 12. Capture ratios
+ * compare average returns in the benchmark's up and down periods.
+ * Returns null with fewer than 3 aligned returns.
+ */
+export function calculateBenchmarkStatistics(
+  ticker: string,
+  data: StooqDataPoint[],
+  benchmark: string,
+  benchmarkData: StooqDataPoint[],
+  frequency: BenchmarkReturnFrequency,
+  periodsPerYear?: number,
+  riskFreeRate: number = RISK_FREE_RATE
+): BenchmarkStatistics | null {
+  const aligned = calculateAlignedReturns(data, benchmarkData, frequency);
+  if (aligned.length < 3) return null;
+
+  const annualization = frequency === 'monthly'
+    ? 12
+    : periodsPerYear ?? detectPeriodsPerYearOfDates(aligned.map(r => r.date));
+  const periodRiskFree = Math.pow(1 + riskFreeRate, 1 / annualization) - 1;
+  const assetReturns = aligned.map(r => r.asset);
+  const benchmarkReturns = aligned.map(r => r.benchmark);
+  const activeReturns = aligned.map(r => r.asset - r.benchmark);
+
+  const benchmarkVariance = covariance(benchmarkReturns, benchmarkReturns);
+  const assetStd = Math.sqrt(covariance(assetReturns, assetReturns));
+  const cov = covariance(assetReturns, benchmarkReturns);
+
+  const beta = benchmarkVariance > 0 ? cov / benchmarkVariance : 0;
+  const alpha = ((mean(assetReturns) - periodRiskFree) - beta * (mean(benchmarkReturns) - periodRiskFree))
+    * annualization;
+  const correlation = assetStd > 0 && benchmarkVariance > 0 ? cov / (assetStd * Math.sqrt(benchmarkVariance)) : 0;
+
+  const trackingError = Math.sqrt(covariance(activeReturns, activeReturns)) * Math.sqrt(annualization);
+  const informationRatio = trackingError > 0 ? (mean(activeReturns) * annualization) / trackingError : 0;
+
+  const captureRatio = (pairs: AlignedReturn[]): number | null => {
+    const benchmarkMean = mean(pairs.map(r => r.benchmark));
+    return pairs.length > 0 && benchmarkMean !== 0 ? (mean(pairs.map(r => r.asset)) / benchmarkMean) * 100 : null;
+  };
+
+  return {
+    ticker,
+    benchmark,
+    frequency,
+    observations: aligned.length,
+    beta,
+    alpha: alpha * 100,
+    correlation,
+    rSquared: correlation * correlation,
+    trackingError: trackingError * 100,
+    informationRatio,
+    upCapture: captureRatio(aligned.filter(r => r.benchmark > 0)),
+    downCapture: captureRatio(aligned.filter(r => r.benchmark < 0)),
+  };
+}
+
+// ============================================
+// RETURN DISTRIBUTION HELPERS
+// ============================================
+
+export interface ReturnMoments {
+  mean: number;
+  std: number;            // sample standard deviation
+  skewness: number;
+  excessKurtosis: number; // 0 for a normal distribution
+}
+
+export function calculateMoments(values: number[]): ReturnMoments {
+  const n = values.length;
+  const avg = mean(values);
+  const std = n > 1 ? Math.sqrt(covariance(values, values)) : 0;
+  if (n < 3 || std === 0) return { mean: avg, std, skewness: 0, excessKurtosis: 0 };
+
+  // Population central moments for the shape statistics
+  let m2 = 0;
+  let m3 = 0;
+  let m4 = 0;
+  for (const v of values) {
+    const d = v - avg;
+    m2 += d * d;
+    m3 += d * d * d;
+    m4 += d * d * d * d;
+  }
+  m2 /= n;
+  m3 /= n;
+  m4 /= n;
+
+  return {
+    mean: avg,
+    std,
+    skewness: m3 / Math.pow(m2, 1.5),
+    excessKurtosis: m4 / (m2 * m2) - 3,
+  };
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  mid: number;
+  count: number;
+}
+
+/**
+ * Equal-width bins spanning the values. The last bin includes the maximum.
+ */
+export function calculateHistogram(values: number[], binCount: number): HistogramBin[] {
+  if (values.length === 0 || binCount < 1) return [];
+
+  let min = values[0];
+  let max = values[0];
+  for (const v of values) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  const width = max > min ? (max - min) / binCount : 1;
+
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+    start: min + i * width,
+    end: min + (i + 1) * width,
+    mid: min + (i + 0.5) * width,
+    count: 0,
+  }));
+  for (const v of values) {
+    bins[Math.min(binCount - 1, Math.floor((v - min) / width))].count++;
+  }
+  return bins;
+}
+
+// Acklam's rational approximation of the inverse standard normal CDF
+export function normalQuantile(p: number): number {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) return -normalQuantile(1 - p);
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+export function normalDensity(z: number): number {
+  return Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI);
+}
+
+// Standard normal CDF via the Abramowitz-Stegun erf approximation (error below 1.5e-7)
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+    * Math.exp(-x * x);
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
+
+// ============================================
+// CORRELATION
+// ============================================
+
+const CORRELATION_INTERVALS: Record<CorrelationFrequency, StooqInterval> = { daily: 'd', weekly: 'w', monthly: 'm' };
+const ROLLING_CORRELATION_MONTHS: Record<RollingCorrelationWindow, number> = { '3M': 3, '6M': 6, '1Y': 12, '3Y': 36 };
+const MIN_CORRELATION_RETURNS = 3;
+
+export interface CorrelationMatrix {
+  tickers: string[];
+  values: (number | null)[][];  // [row][column]; null with too few common returns or a flat series
+  observations: number[][];     // common returns behind each value
+}
+
+export interface RollingCorrelationPoint {
+  date: string;
+  correlation: number;
+  observations: number;
+}
+
+// One ticker's values from normalizeDataForChart output
+function chartSeries(chartData: ChartDataPoint[], ticker: string): DatedClose[] {
+  return chartData.flatMap(point => {
+    const value = point[ticker];
+    return typeof value === 'number' ? [{ date: point.date, close: value }] : [];
+  });
+}
+
+function pearsonCorrelation(a: number[], b: number[]): number | null {
+  if (a.length < MIN_CORRELATION_RETURNS) return null;
+  const varianceA = covariance(a, a);
+  const varianceB = covariance(b, b);
+  return varianceA > 0 && varianceB > 0 ? covariance(a, b) / Math.sqrt(varianceA * varianceB) : null;
+}
+
+/**
+ * Returns of two tickers over the periods both have a value for, from the
+ * date-aligned chart data produced by normalizeDataForChart.
+ */
+export function calculatePairReturns(
+  chartData: ChartDataPoint[],
+  tickerA: string,
+  tickerB: string,
+  frequency: CorrelationFrequency
+): PairReturn[] {
+  const interval = CORRELATION_INTERVALS[frequency];
+  return alignReturns(
+    closesByPeriod(chartSeries(chartData, tickerA), interval),
+    closesByPeriod(chartSeries(chartData, tickerB), interval)
+  );
+}
+
+/**
+ * Pearson correlation of returns for every pair of tickers. Each pair uses
+ * the periods both tickers have data for.
+ */
+export function calculateCorrelationMatrix(
+  chartData: ChartDataPoint[],
+  tickers: string[],
+  frequency: CorrelationFrequency
+): CorrelationMatrix {
+  const values = tickers.map(() => tickers.map((): number | null => null));
+  const observations = tickers.map(() => tickers.map(() => 0));
+
+  for (let i = 0; i < tickers.length; i++) {
+    for (let j = i; j < tickers.length; j++) {
+      const returns = calculatePairReturns(chartData, tickers[i], tickers[j], frequency);
+      const correlation = pearsonCorrelation(returns.map(r => r.a), returns.map(r => r.b));
+      values[i][j] = values[j][i] = correlation;
+      observations[i][j] = observations[j][i] = returns.length;
+    }
+  }
+
+  return { tickers, values, observations };
+}
+
+/**
+ * Correlation over a trailing calendar window ending at each return. Points
+ * start once the returns cover a full window.
+ */
+export function calculateRollingCorrelation(
+  returns: PairReturn[],
+  window: RollingCorrelationWindow
+): RollingCorrelationPoint[] {
+  if (returns.length === 0) return [];
+
+  const months = ROLLING_CORRELATION_MONTHS[window];
+  const result: RollingCorrelationPoint[] = [];
+  // Running sums over the current window
+  const sums = { a: 0, b: 0, aa: 0, bb: 0, ab: 0 };
+  const accumulate = ({ a, b }: PairReturn, sign: 1 | -1) => {
+    sums.a += sign * a;
+    sums.b += sign * b;
+    sums.aa += sign * a * a;
+    sums.bb += sign * b * b;
+    sums.ab += sign * a * b;
+  };
+  let startIdx = 0;
+
+  for (let i = 0; i < returns.length; i++) {
+    accumulate(returns[i], 1);
+
+    const windowStart = new Date(`${returns[i].date}T00:00:00Z`);
+    windowStart.setUTCMonth(windowStart.getUTCMonth() - months);
+    const windowStartStr = windowStart.toISOString().slice(0, 10);
+
+    // Drop returns at or before the window start
+    while (startIdx < i && returns[startIdx].date <= windowStartStr) {
+      accumulate(returns[startIdx], -1);
+      startIdx++;
+    }
+
+    if (returns[0].date > windowStartStr) continue;
+    const n = i - startIdx + 1;
+    if (n < MIN_CORRELATION_RETURNS) continue;
+
+    const varianceA = sums.aa - (sums.a * sums.a) / n;
+    const varianceB = sums.bb - (sums.b * sums.b) / n;
+    if (varianceA <= 0 || varianceB <= 0) continue;
+    const correlation = (sums.ab - (sums.a * sums.b) / n) / Math.sqrt(varianceA * varianceB);
+
+    result.push({
+      date: returns[i].date,
+      correlation: Math.max(-1, Math.min(1, correlation)), // guard against rounding drift
+      observations: n,
+    });
+  }
+
+  return result;
+}
+
+// ============================================
+// RETURN DISTRIBUTION
+// ============================================
+
+const DISTRIBUTION_INTERVALS: Record<DistributionFrequency, StooqInterval> = { daily: 'd', weekly: 'w', monthly: 'm' };
+const DISTRIBUTION_BINS = 40;
+const MAX_QQ_POINTS = 500;
+const MIN_DISTRIBUTION_RETURNS = 8;
+
+export interface DistributionBin extends HistogramBin {
+  normalCount: number; // expected count under the fitted normal distribution
+}
+
+export interface QQPoint {
+  theoretical: number; // standard normal quantile
+  sample: number;      // standardized return
+}
+
+export interface SigmaMoveCount {
+  sigma: number;
+  down: number;     // returns below mean - sigma * std
+  up: number;       // returns above mean + sigma * std
+  expected: number; // both tails combined, under a normal distribution
+}
+
+export interface ReturnDistribution {
+  frequency: DistributionFrequency;
+  observations: number;
+  moments: ReturnMoments;    // mean and std in %
+  histogram: DistributionBin[];
+  jarqueBera: number;
+  jarqueBeraPValue: number;  // chi-squared with 2 degrees of freedom
+  qq: QQPoint[];
+  sigmaMoves: SigmaMoveCount[];
+}
+
+/**
+ * Shape of the simple returns (in %) between period closes of one series:
+ * histogram with a fitted normal, moments, Jarque-Bera normality test,
+ * QQ-plot points and 2σ/3σ move counts. Null with too few returns.
+ */
+export function calculateReturnDistribution(
+  data: StooqDataPoint[],
+  frequency: DistributionFrequency
+): ReturnDistribution | null {
+  const closes = Array.from(closesByPeriod(data, DISTRIBUTION_INTERVALS[frequency]).values());
+  const returns: number[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    if (closes[i - 1].close > 0) returns.push((closes[i].close / closes[i - 1].close - 1) * 100);
+  }
+
+  const n = returns.length;
+  if (n < MIN_DISTRIBUTION_RETURNS) return null;
+
+  const moments = calculateMoments(returns);
+  if (moments.std === 0) return null;
+
+  const histogram = calculateHistogram(returns, DISTRIBUTION_BINS).map(bin => ({
+    ...bin,
+    normalCount: n * (
+      normalCdf((bin.end - moments.mean) / moments.std) - normalCdf((bin.start - moments.mean) / moments.std)
+    ),
+  }));
+
+  const jarqueBera = (n / 6) * (moments.skewness ** 2 + moments.excessKurtosis ** 2 / 4);
+
+  // Evenly spaced order statistics keep the plot light for long daily histories
+  const sorted = [...returns].sort((a, b) => a - b);
+  const step = Math.max(1, (n - 1) / (MAX_QQ_POINTS - 1));
+  const qq: QQPoint[] = [];
+  for (let pos = 0; Math.round(pos) < n; pos += step) {
+    const i = Math.round(pos);
+    qq.push({
+      theoretical: normalQuantile((i + 0.5) / n),
+      sample: (sorted[i] - moments.mean) / moments.std,
+    });
+  }
+
+  const sigmaMoves = [2, 3].map(sigma => ({
+    sigma,
+    down: returns.filter(r => r < moments.mean - sigma * moments.std).length,
+    up: returns.filter(r => r > moments.mean + sigma * moments.std).length,
+    expected: n * 2 * (1 - normalCdf(sigma)),
+  }));
+
+  return {
+    frequency,
+    observations: n,
+    moments,
+    histogram,
+    jarqueBera,
+    jarqueBeraPValue: Math.exp(-jarqueBera / 2),
+    qq,
+    sigmaMoves,
+  };
+}
+
 // ============================================
 // TREND FOLLOWING STRATEGY CALCULATIONS
 // ============================================
@@ -905,13 +1639,14 @@ function calculateTrendFollowingEquity(
   dailyData: StooqDataPoint[],
   monthlySignals: MonthlyDataPoint[],
   riskFreeRate: number,
-  commission: number
+  commission: number,
+  periodsPerYear: number
 ): {
   chartData: TrendFollowingChartPoint[];
   signalDates: { date: string; signal: TrendSignal }[];
 } {
-  // Calculate daily cash return from annual risk-free rate
-  const dailyCashReturn = Math.pow(1 + riskFreeRate, 1 / TRADING_DAYS_PER_YEAR) - 1;
+  // Calculate per-period cash return from annual risk-free rate
+  const dailyCashReturn = Math.pow(1 + riskFreeRate, 1 / periodsPerYear) - 1;
   if (dailyData.length === 0 || monthlySignals.length < 10) {
     return { chartData: [], signalDates: [] };
   }
@@ -1076,7 +1811,8 @@ function calculateTrendFollowingDrawdowns(
 function calculateStrategyStatistics(
   equityCurve: number[],
   dates: string[],
-  riskFreeRate: number
+  riskFreeRate: number,
+  periodsPerYear: number
 ): StrategyStatistics {
   if (equityCurve.length < 2) {
     return {
@@ -1106,14 +1842,7 @@ function calculateStrategyStatistics(
   }
 
   // Annualized standard deviation
-  let annualizedStd = 0;
-  if (dailyReturns.length >= 2) {
-    const mean = dailyReturns.reduce((a, b) => a + b, 0) / dailyReturns.length;
-    const squaredDiffs = dailyReturns.map((r) => Math.pow(r - mean, 2));
-    const variance = squaredDiffs.reduce((a, b) => a + b, 0) / (dailyReturns.length - 1);
-    const dailyStd = Math.sqrt(variance);
-    annualizedStd = dailyStd * Math.sqrt(TRADING_DAYS_PER_YEAR) * 100;
-  }
+  const annualizedStd = calculateAnnualizedStd(dailyReturns, periodsPerYear) * 100;
 
   // Max drawdown and current drawdown
   let peak = equityCurve[0];
@@ -1154,9 +1883,10 @@ export function calculateTrendFollowingAnalysis(
   data: StooqDataPoint[],
   riskFreeRate: number = 0.02,  // Default 2%
   commission: number = 0,       // Default 0%
-  rawData?: StooqDataPoint[]    // Full unfiltered data for SMA warmup
+  rawData?: StooqDataPoint[],   // Full unfiltered data for SMA warmup
+  periodsPerYear: number = detectPeriodsPerYear(data)
 ): TrendFollowingAnalysis | null {
-  if (data.length < 252) {
+  if (data.length < periodsPerYear) {
     // Need at least ~1 year of data
     return null;
   }
@@ -1176,7 +1906,13 @@ export function calculateTrendFollowingAnalysis(
   const monthlySignals = calculateMonthlySignals(monthlyPrices);
 
   // Step 3: Build daily equity curves (using filtered data for display range)
-  const { chartData, signalDates } = calculateTrendFollowingEquity(data, monthlySignals, riskFreeRate, commission);
+  const { chartData, signalDates } = calculateTrendFollowingEquity(
+    data,
+    monthlySignals,
+    riskFreeRate,
+    commission,
+    periodsPerYear
+  );
 
   if (chartData.length === 0) {
     return null;
@@ -1190,8 +1926,13 @@ export function calculateTrendFollowingAnalysis(
   const trendFollowingEquity = chartData.map((p) => p.trendFollowing);
   const dates = chartData.map((p) => p.date);
 
-  const buyHoldStats = calculateStrategyStatistics(buyHoldEquity, dates, riskFreeRate);
-  const trendFollowingStats = calculateStrategyStatistics(trendFollowingEquity, dates, riskFreeRate);
+  const buyHoldStats = calculateStrategyStatistics(buyHoldEquity, dates, riskFreeRate, periodsPerYear);
+  const trendFollowingStats = calculateStrategyStatistics(
+    trendFollowingEquity,
+    dates,
+    riskFreeRate,
+    periodsPerYear
+  );
 
   // Current signal
   const currentSignal = chartData[chartData.length - 1].signal || 'SELL';
@@ -1,29 +1,253 @@
 import Papa from 'papaparse';
-import { StooqDataPoint, TickerData } from './types';
+import { StooqDataPoint, StooqInterval, TickerData, TickerErrorCode } from './types';
 
 const STOOQ_BASE_URL = 'https://stooq.pl/q/d/l/';
+const STOOQ_FULL_HISTORY_START = '19000101';
+const STOOQ_HISTORY_END = '20301231';
 
-export async function fetchStooqData(ticker: string): Promise<TickerData> {
-  const url = `${STOOQ_BASE_URL}?s=${encodeURIComponent(ticker.toLowerCase())}&d1=19000101&d2=20301231&i=d`;
+// Letters, digits and the punctuation Stooq uses in symbols (e.g. "^SPX", "BTC.V", "ETFBM40TR.PL")
+export const STOOQ_SYMBOL_PATTERN = /^[A-Za-z0-9^._-]+$/;
 
-  const response = await fetch(url);
+// Relative tolerance when comparing overlapping closes (Stooq rounds prices)
+const OVERLAP_TOLERANCE = 1e-4;
+
+/**
+ * Build the Stooq CSV download URL. `fromDate` (YYYY-MM-DD) limits the
+ * download to rows on or after that date.
+ */
+export function buildStooqUrl(ticker: string, fromDate?: string, interval: StooqInterval = 'd'): string {
+  const d1 = fromDate ? fromDate.replace(/-/g, '') : STOOQ_FULL_HISTORY_START;
+  return `${STOOQ_BASE_URL}?s=${encodeURIComponent(ticker.toLowerCase())}&d1=${d1}&d2=${STOOQ_HISTORY_END}&i=${interval}`;
+}
+
+export class StooqFetchError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code: TickerErrorCode,
+    public retryable: boolean = false
+  ) {
+    super(message);
+    this.name = 'StooqFetchError';
+  }
+}
+
+export class StooqNotFoundError extends StooqFetchError {
+  constructor(ticker: string) {
+    super(`No data available for ticker: ${ticker}`, 404, 'NOT_FOUND');
+    this.name = 'StooqNotFoundError';
+  }
+}
+
+export class StooqQuotaExceededError extends StooqFetchError {
+  constructor(ticker: string) {
+    super(`Daily Stooq download limit reached while fetching ${ticker}`, 429, 'QUOTA_EXCEEDED');
+    this.name = 'StooqQuotaExceededError';
+  }
+}
+
+export class StooqHtmlResponseError extends StooqFetchError {
+  constructor(ticker: string) {
+    super(`Stooq returned a web page instead of CSV data for ${ticker}`, 503, 'HTML_RESPONSE');
+    this.name = 'StooqHtmlResponseError';
+  }
+}
+
+export class StooqEmptyResponseError extends StooqFetchError {
+  constructor(ticker: string) {
+    super(`Stooq returned an empty response for ${ticker}`, 504, 'EMPTY_RESPONSE', true);
+    this.name = 'StooqEmptyResponseError';
+  }
+}
+
+export class StooqUnexpectedFormatError extends StooqFetchError {
+  constructor(ticker: string, header: string) {
+    super(`Unexpected CSV header from Stooq for ${ticker}: "${header.slice(0, 80)}"`, 502, 'UNEXPECTED_FORMAT');
+    this.name = 'StooqUnexpectedFormatError';
+  }
+}
+
+export type StooqResponseKind = 'csv' | 'empty' | 'no_data' | 'quota_exceeded' | 'html' | 'unexpected_header';
+
+const QUOTA_EXCEEDED_PATTERN = /przekroczon\w* (dzienny )?limit|exceeded the daily/i;
+const HTML_PATTERN = /^<(!doctype|html|head|body)|<html[\s>]|captcha/i;
+
+/**
+ * Classify a Stooq download body before parsing it as CSV.
+ */
+export function classifyStooqResponse(body: string): StooqResponseKind {
+  const trimmed = body.trim();
+
+  if (trimmed.length === 0) return 'empty';
+  if (QUOTA_EXCEEDED_PATTERN.test(trimmed)) return 'quota_exceeded';
+  if (HTML_PATTERN.test(trimmed)) return 'html';
+  if (trimmed.includes('Brak danych') || /^no data/i.test(trimmed)) return 'no_data';
+
+  const columns = trimmed.split(/\r?\n/, 1)[0].split(',').map(c => c.trim());
+  const hasDate = columns.includes('Data') || columns.includes('Date');
+  const hasClose = columns.includes('Zamkniecie') || columns.includes('Close');
+
+  return hasDate && hasClose ? 'csv' : 'unexpected_header';
+}
+
+/**
+ * Download and parse one Stooq CSV in a single attempt.
+ * Throws a StooqFetchError subclass per failure kind; 5xx responses, timeouts
+ * and empty bodies are marked retryable.
+ */
+async function downloadStooqData(
+  ticker: string,
+  fromDate: string | undefined,
+  interval: StooqInterval,
+  timeoutMs: number
+): Promise<StooqDataPoint[]> {
+  const url = buildStooqUrl(ticker, fromDate, interval);
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+      },
+      cache: 'no-store',
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    const isTimeout = error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+    throw new StooqFetchError(
+      isTimeout
+        ? `Timed out fetching data for ${ticker}`
+        : `Failed to fetch data for ${ticker}: ${error instanceof Error ? error.message : 'network error'}`,
+      504,
+      'UPSTREAM_ERROR',
+      true
+    );
+  }
 
   if (!response.ok) {
-    throw new Error(`Failed to fetch data for ${ticker}: ${response.statusText}`);
+    if (response.status === 429) {
+      throw new StooqQuotaExceededError(ticker);
+    }
+    throw new StooqFetchError(
+      `Failed to fetch data for ${ticker}: ${response.statusText}`,
+      502,
+      'UPSTREAM_ERROR',
+      response.status >= 500
+    );
   }
 
   const csvText = await response.text();
 
-  if (!csvText || csvText.trim().length === 0) {
-    throw new Error(`No data returned for ticker: ${ticker}`);
+  switch (classifyStooqResponse(csvText)) {
+    case 'empty':
+      throw new StooqEmptyResponseError(ticker);
+    case 'quota_exceeded':
+      throw new StooqQuotaExceededError(ticker);
+    case 'html':
+      throw new StooqHtmlResponseError(ticker);
+    case 'no_data':
+      throw new StooqNotFoundError(ticker);
+    case 'unexpected_header':
+      throw new StooqUnexpectedFormatError(ticker, csvText.trim().split(/\r?\n/, 1)[0]);
   }
 
   const data = parseStooqCSV(csvText, ticker);
 
   if (data.length === 0) {
-    throw new Error(`Invalid ticker or no data available: ${ticker}`);
+    throw new StooqFetchError(`Could not parse data for ticker: ${ticker}`, 502, 'PARSE_ERROR');
   }
 
+  return data;
+}
+
+export interface StooqSchedulerOptions {
+  concurrency: number;  // max downloads in flight
+  retries: number;      // extra attempts after a retryable failure
+  baseDelayMs: number;  // backoff before first retry, doubled on each next one
+  timeoutMs: number;    // per-attempt timeout
+}
+
+export interface StooqScheduler {
+  fetch: (ticker: string, fromDate?: string, interval?: StooqInterval) => Promise<StooqDataPoint[]>;
+}
+
+const DEFAULT_SCHEDULER_OPTIONS: StooqSchedulerOptions = {
+  concurrency: 4,
+  retries: 2,
+  baseDelayMs: 500,
+  timeoutMs: 15000,
+};
+
+/**
+ * Create a download scheduler that limits concurrent Stooq requests, retries
+ * 5xx responses and timeouts with exponential backoff, and shares one download
+ * between concurrent requests for the same symbol and start date.
+ */
+export function createStooqScheduler(options: Partial<StooqSchedulerOptions> = {}): StooqScheduler {
+  const { concurrency, retries, baseDelayMs, timeoutMs } = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+
+  const inFlight = new Map<string, Promise<StooqDataPoint[]>>();
+  const waiting: (() => void)[] = [];
+  let active = 0;
+
+  const acquireSlot = async () => {
+    if (active >= concurrency) {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+    active++;
+  };
+
+  const releaseSlot = () => {
+    active--;
+    waiting.shift()?.();
+  };
+
+  const fetchWithRetries = async (
+    ticker: string,
+    fromDate: string | undefined,
+    interval: StooqInterval
+  ): Promise<StooqDataPoint[]> => {
+    for (let attempt = 0; ; attempt++) {
+      await acquireSlot();
+      try {
+        return await downloadStooqData(ticker, fromDate, interval, timeoutMs);
+      } catch (error) {
+        const retryable = error instanceof StooqFetchError && error.retryable;
+        if (!retryable || attempt >= retries) throw error;
+      } finally {
+        releaseSlot();
+      }
+
+      // Back off outside the slot so other tickers can proceed meanwhile
+      await new Promise((resolve) => setTimeout(resolve, baseDelayMs * Math.pow(2, attempt)));
+    }
+  };
+
+  return {
+    fetch: (ticker, fromDate, interval = 'd') => {
+      const key = `${ticker.toUpperCase()}|${fromDate || ''}|${interval}`;
+      const existing = inFlight.get(key);
+      if (existing) return existing;
+
+      const request = fetchWithRetries(ticker, fromDate, interval).finally(() => inFlight.delete(key));
+      inFlight.set(key, request);
+      return request;
+    },
+  };
+}
+
+// Shared scheduler for all server-side Stooq downloads
+export const stooqScheduler = createStooqScheduler({
+  concurrency: Number(process.env.STOOQ_MAX_CONCURRENCY || DEFAULT_SCHEDULER_OPTIONS.concurrency),
+});
+
+export async function fetchStooqData(
+  ticker: string,
+  fromDate?: string,
+  interval: StooqInterval = 'd'
+): Promise<TickerData> {
+  const data = await stooqScheduler.fetch(ticker, fromDate, interval);
+
   return {
     ticker: ticker.toUpperCase(),
     data,
@@ -40,18 +264,37 @@ export function parseStooqCSV(csvText: string, ticker: string): StooqDataPoint[]
     console.warn(`CSV parsing warnings for ${ticker}:`, result.errors);
   }
 
-  const data: StooqDataPoint[] = [];
-
-  for (const row of result.data as Record<string, string>[]) {
+  const rows = (result.data as Record<string, string>[]).map((row) => ({
     // Stooq CSV columns: Data, Otwarcie, Najwyzszy, Najnizszy, Zamkniecie, Wolumen
     // Or in English: Date, Open, High, Low, Close, Volume
-    const date = row['Data'] || row['Date'];
-    const open = parseFloat(row['Otwarcie'] || row['Open'] || '0');
-    const high = parseFloat(row['Najwyzszy'] || row['High'] || '0');
-    const low = parseFloat(row['Najnizszy'] || row['Low'] || '0');
-    const close = parseFloat(row['Zamkniecie'] || row['Close'] || '0');
-    const volume = parseFloat(row['Wolumen'] || row['Volume'] || '0');
+    date: row['Data'] || row['Date'],
+    open: parseFloat(row['Otwarcie'] || row['Open'] || '0'),
+    high: parseFloat(row['Najwyzszy'] || row['High'] || '0'),
+    low: parseFloat(row['Najnizszy'] || row['Low'] || '0'),
+    close: parseFloat(row['Zamkniecie'] || row['Close'] || '0'),
+    volume: parseFloat(row['Wolumen'] || row['Volume'] || '0'),
+  }));
+
+  return validateDataPoints(rows);
+}
+
+export interface RawPriceRow {
+  date: string | undefined;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * Keep rows with a date and a positive close, fill missing OHLC from the close
+ * and missing volume with 0, and sort by date ascending.
+ */
+export function validateDataPoints(rows: RawPriceRow[]): StooqDataPoint[] {
+  const data: StooqDataPoint[] = [];
 
+  for (const { date, open, high, low, close, volume } of rows) {
     if (date && !isNaN(close) && close > 0) {
       data.push({
         date,
@@ -70,18 +313,49 @@ export function parseStooqCSV(csvText: string, ticker: string): StooqDataPoint[]
   return data;
 }
 
-export async function fetchMultipleTickers(tickers: string[]): Promise<TickerData[]> {
-  const results: TickerData[] = [];
+export async function fetchMultipleTickers(
+  tickers: string[],
+  interval: StooqInterval = 'd'
+): Promise<TickerData[]> {
+  // The scheduler bounds concurrency, so all tickers can be requested at once
+  return Promise.all(tickers.map((ticker) => fetchStooqData(ticker.trim(), undefined, interval)));
+}
 
-  for (const ticker of tickers) {
-    try {
-      const data = await fetchStooqData(ticker.trim());
-      results.push(data);
-    } catch (error) {
-      console.error(`Error fetching ${ticker}:`, error);
-      throw error;
-    }
+/**
+ * Merge an incremental download into a stored series.
+ *
+ * `update` must start at or before the last stored date so the two series overlap.
+ * Returns null when overlapping rows disagree (e.g. after a retroactive split
+ * adjustment), in which case the caller should re-download the full history.
+ * The last stored row is not compared because it may have been an intraday bar.
+ */
+export function mergeStooqData(
+  stored: StooqDataPoint[],
+  update: StooqDataPoint[]
+): StooqDataPoint[] | null {
+  if (stored.length === 0) return update;
+  if (update.length === 0) return null;
+
+  const lastStoredDate = stored[stored.length - 1].date;
+  if (update[0].date > lastStoredDate) {
+    // No overlap - cannot verify the stored series is still consistent
+    return null;
   }
 
-  return results;
+  const updateByDate = new Map(update.map(p => [p.date, p]));
+
+  for (const point of stored) {
+    if (point.date < update[0].date || point.date === lastStoredDate) continue;
+
+    const fresh = updateByDate.get(point.date);
+    if (!fresh) return null;
+
+    const diff = Math.abs(fresh.close - point.close) / point.close;
+    if (diff > OVERLAP_TOLERANCE) return null;
+  }
+
+  const merged = stored.filter(p => p.date < update[0].date);
+  merged.push(...update);
+
+  return merged;
 }
@@ -0,0 +1,120 @@
+import { SymbolInfo } from './types';
+import { collectTickers, isExpression, parseExpression } from './expression';
+import catalogue from './symbols.json';
+
+// Bundled catalogue of common Stooq symbols; any other valid symbol can still be typed
+export const SYMBOL_CATALOGUE = catalogue as SymbolInfo[];
+
+const DEFAULT_SEARCH_LIMIT = 10;
+
+const CATALOGUE_SYMBOLS = new Set(SYMBOL_CATALOGUE.map((info) => info.symbol.toUpperCase()));
+
+// Plain ticker, optionally with a data source prefix such as "file:"
+const TICKER_PATTERN = /^([a-z][a-z0-9]*:)?[A-Za-z0-9^._-]+$/i;
+
+/**
+ * Score how well `query` matches `text` (both lowercase): exact, prefix,
+ * word prefix, substring, then in-order characters with few gaps. 0 = no match.
+ */
+function scoreMatch(query: string, text: string): number {
+  if (text === query) return 100;
+  if (text.startsWith(query)) return 80;
+  if (text.split(/[\s/().-]+/).some((word) => word.startsWith(query))) return 60;
+  if (text.includes(query)) return 40;
+
+  // Fuzzy: all query characters appear in order
+  let position = -1;
+  let first = -1;
+  for (const char of query) {
+    position = text.indexOf(char, position + 1);
+    if (position < 0) return 0;
+    if (first < 0) first = position;
+  }
+  const gaps = position - first + 1 - query.length;
+  return Math.max(1, 20 - gaps);
+}
+
+/**
+ * Search the catalogue by symbol or name, best matches first.
+ */
+export function searchSymbols(query: string, limit: number = DEFAULT_SEARCH_LIMIT): SymbolInfo[] {
+  const q = query.trim().toLowerCase();
+  if (q.length === 0) return [];
+
+  return SYMBOL_CATALOGUE
+    .map((info) => ({
+      info,
+      // Symbol matches rank above equally good name matches
+      score: Math.max(scoreMatch(q, info.symbol.toLowerCase()) + 5, scoreMatch(q, info.name.toLowerCase())),
+    }))
+    .filter(({ score }) => score > 5)
+    .sort((a, b) => b.score - a.score || a.info.symbol.length - b.info.symbol.length)
+    .slice(0, limit)
+    .map(({ info }) => info);
+}
+
+/**
+ * Check the syntax of one ticker input (plain, prefixed or an expression).
+ * Returns an error message, or null when the input can be submitted.
+ */
+export function validateTickerInput(ticker: string): string | null {
+  if (isExpression(ticker)) {
+    try {
+      parseExpression(ticker);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid expression';
+    }
+  }
+  return TICKER_PATTERN.test(ticker) ? null : 'Invalid symbol';
+}
+
+export function isCatalogueSymbol(symbol: string): boolean {
+  return CATALOGUE_SYMBOLS.has(symbol.trim().toUpperCase());
+}
+
+/**
+ * Text to insert for a catalogue symbol; symbols containing an operator
+ * character are quoted so they are not read as expressions.
+ */
+export function formatSymbolForInput(symbol: string): string {
+  return isExpression(symbol) ? `"${symbol}"` : symbol;
+}
+
+// Data source labels by ticker prefix; tickers without one come from Stooq
+const SOURCE_LABELS: Record<string, string> = {
+  file: 'local file',
+  fixture: 'fixture data',
+};
+
+/**
+ * Where the series of the given tickers come from, e.g. for chart footers.
+ * Uploaded tickers are named by the user, so they are passed in explicitly;
+ * expressions contribute the sources of their components.
+ */
+export function describeTickerSources(tickers: string[], uploadedTickers: string[] = []): string[] {
+  const sources = new Set<string>();
+
+  const addSource = (ticker: string) => {
+    if (uploadedTickers.includes(ticker)) {
+      sources.add('uploaded file');
+      return;
+    }
+    const prefix = ticker.match(/^([a-z][a-z0-9]*):/i)?.[1].toLowerCase();
+    sources.add(prefix ? SOURCE_LABELS[prefix] ?? prefix : 'stooq.pl');
+  };
+
+  for (const ticker of tickers) {
+    if (uploadedTickers.includes(ticker) || !isExpression(ticker)) {
+      addSource(ticker);
+      continue;
+    }
+    try {
+      collectTickers(parseExpression(ticker)).forEach(addSource);
+    } catch {
+      // Only valid expressions load, so there are no components to name here
+    }
+    sources.add('calculated expression');
+  }
+  return Array.from(sources);
+}
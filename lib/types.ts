@@ -7,9 +7,20 @@ export interface StooqDataPoint {
   volume: number;
 }
 
+// Stooq bar intervals: daily, weekly, monthly, quarterly, yearly
+export type StooqInterval = 'd' | 'w' | 'm' | 'q' | 'y';
+
+export const STOOQ_INTERVALS: StooqInterval[] = ['d', 'w', 'm', 'q', 'y'];
+
+// Quick date ranges, relative to the latest common date of the loaded series
+export type DateRangePreset = '1M' | '3M' | '6M' | 'YTD' | '1Y' | '3Y' | '5Y' | '10Y' | 'Max';
+
+export const DATE_RANGE_PRESETS: DateRangePreset[] = ['1M', '3M', '6M', 'YTD', '1Y', '3Y', '5Y', '10Y', 'Max'];
+
 export interface TickerData {
   ticker: string;
   data: StooqDataPoint[];
+  currency?: string; // quote currency when the source states it (e.g. chosen on upload)
 }
 
 export interface ChartDataPoint {
@@ -54,12 +65,197 @@ export interface Statistics {
   avgLossSession: number;
   annualizedStd: number;
   sharpeRatio: number;
+  periodsPerYear: number; // observations per year used to annualize (252, 365, 52, ...)
+
+  // Risk-adjusted section (ratios relative to minAcceptableReturn use it as the hurdle)
+  minAcceptableReturn: number; // annual %, MAR
+  sortinoRatio: number;
+  calmarRatio: number;
+  ulcerIndex: number;          // %, RMS of drawdowns
+  martinRatio: number;
+  painIndex: number;           // %, mean drawdown
+  omegaRatio: number | null;   // null when no period falls below the MAR
+  gainToPainRatio: number | null; // monthly returns; null without a losing month
 }
 
-export interface ApiResponse {
+// 'daily' uses every common bar of the selected interval, 'monthly' common month-end closes
+export type BenchmarkReturnFrequency = 'daily' | 'monthly';
+
+export const BENCHMARK_RETURN_FREQUENCIES: BenchmarkReturnFrequency[] = ['daily', 'monthly'];
+
+// Value at Risk
+export type VarMethod = 'historical' | 'normal' | 'cornishFisher' | 'bootstrap';
+
+export const VAR_METHODS: VarMethod[] = ['historical', 'normal', 'cornishFisher', 'bootstrap'];
+
+export type VarHorizon = '1d' | '10d' | '1m';
+
+export const VAR_HORIZONS: VarHorizon[] = ['1d', '10d', '1m'];
+
+export const VAR_CONFIDENCE_LEVELS = [0.95, 0.99];
+
+export interface VarEstimate {
+  method: VarMethod;
+  confidence: number;         // 0.95 or 0.99
+  horizon: VarHorizon;
+  valueAtRisk: number;        // %, loss not exceeded with the given confidence
+  expectedShortfall: number;  // %, CVaR: average loss beyond the VaR
+}
+
+export interface ValueAtRiskReport {
+  ticker: string;
+  observations: number; // one-bar returns
+  periodsPerYear: number;
+  estimates: VarEstimate[];
+}
+
+export type CorrelationFrequency = 'daily' | 'weekly' | 'monthly';
+
+export type RollingCorrelationWindow = '3M' | '6M' | '1Y' | '3Y';
+
+export type DistributionFrequency = 'daily' | 'weekly' | 'monthly';
+
+// One ticker measured against the benchmark ticker over their common dates
+export interface BenchmarkStatistics {
+  ticker: string;
+  benchmark: string;
+  frequency: BenchmarkReturnFrequency;
+  observations: number;   // aligned return pairs
+  beta: number;
+  alpha: number;          // Jensen's alpha, annual %
+  correlation: number;
+  rSquared: number;
+  trackingError: number;  // annual %
+  informationRatio: number;
+  upCapture: number | null;   // %, null without an up period of the benchmark
+  downCapture: number | null; // %, null without a down period of the benchmark
+}
+
+export interface ProviderCapabilities {
+  intervals: StooqInterval[]; // intervals served natively; others are resampled from daily bars
+  incremental: boolean;       // can download only rows from a given date onwards
+  cacheable: boolean;         // remote source worth caching server-side
+}
+
+export interface FetchHistoryOptions {
+  fromDate?: string; // YYYY-MM-DD, only honoured by incremental providers
+  interval?: StooqInterval;
+}
+
+// A source of price history, selected per ticker by a prefix such as "file:MYFUND"
+export interface MarketDataProvider {
+  id: string;   // ticker prefix
+  name: string;
+  capabilities: ProviderCapabilities;
+  // Returns an error message for symbols this provider can never serve, or null
+  validateSymbol: (symbol: string) => string | null;
+  fetchHistory: (symbol: string, options?: FetchHistoryOptions) => Promise<StooqDataPoint[]>;
+}
+
+export type AssetClass = 'stock' | 'etf' | 'index' | 'currency' | 'crypto' | 'commodity';
+
+// Entry of the bundled symbol catalogue
+export interface SymbolInfo {
+  symbol: string;
+  name: string;
+  exchange: string;
+  currency: string;
+  assetClass: AssetClass;
+}
+
+export interface SymbolSearchResponse {
   success: boolean;
-  data?: TickerData[];
+  data?: SymbolInfo[];
+  error?: string;
+}
+
+// Pre-submit check of one ticker input
+export interface SymbolCheck {
+  ticker: string;
+  error?: string;    // rejected by its data provider, so loading would fail
+  unknown: string[]; // Stooq symbols missing from the catalogue, which may still load
+}
+
+export interface SymbolCheckResponse {
+  success: boolean;
+  data?: SymbolCheck[];
+  error?: string;
+}
+
+// Price chart overlays (single-ticker view)
+export interface PriceChartSettings {
+  show50SMA: boolean;
+  show200SMA: boolean;
+  distanceSMAPeriod: 50 | 200; // SMA used by the distance-from-SMA chart
+}
+
+// Data quality findings
+export type DataQualityIssueType = 'gap' | 'outlier' | 'stale' | 'ohlc' | 'split';
+
+export interface DataQualityIssue {
+  type: DataQualityIssueType;
+  date: string;     // flagged row; for gaps the first row after the gap
+  message: string;
+  factor?: number;  // suspected split ratio: new price / old price (e.g. 0.5 for a 2:1 split)
+}
+
+export interface DataQualityReport {
+  ticker: string;
+  rowCount: number;
+  issues: DataQualityIssue[];
+}
+
+// flag: report only, exclude: drop flagged rows, patch: repair flagged rows in place
+export type DataQualityMode = 'flag' | 'exclude' | 'patch';
+
+// How a CPI series is expressed: index levels, or month-on-month change
+// (either as previous month = 100 or as a percentage)
+export type CpiSeriesKind = 'index' | 'mom';
+
+export interface CpiPoint {
+  month: string; // YYYY-MM
+  value: number; // index level
+}
+
+export interface Deflator {
+  label: string;     // source shown in the UI, e.g. "CPIMPL.M"
+  index: CpiPoint[]; // ascending by month
+}
+
+// hit: served from cache, incremental: only new rows downloaded, miss: full download,
+// stale: refresh failed and the last stored copy was served instead
+export type CacheStatus = 'hit' | 'incremental' | 'miss' | 'stale';
+
+export interface TickerCacheInfo {
+  ticker: string;
+  cache: CacheStatus;
+  fetchedAt: string; // ISO timestamp of the underlying Stooq download
+}
+
+export type TickerErrorCode =
+  | 'NOT_FOUND'
+  | 'UPSTREAM_ERROR'
+  | 'QUOTA_EXCEEDED'
+  | 'PARSE_ERROR'
+  | 'HTML_RESPONSE'
+  | 'EMPTY_RESPONSE'
+  | 'UNEXPECTED_FORMAT'
+  | 'INVALID_SYMBOL';
+
+export interface TickerResult {
+  ticker: string;
+  status: 'ok' | 'stale' | 'error'; // stale: refresh failed, cached data returned
+  fetchedAt?: string;               // download time of the returned data
+  errorCode?: TickerErrorCode;
+  error?: string;
+}
+
+export interface ApiResponse {
+  success: boolean;       // true when at least one ticker loaded
+  data?: TickerData[];    // successfully loaded tickers only
   error?: string;
+  results?: TickerResult[]; // per-ticker outcome, in request order
+  cache?: TickerCacheInfo[];
 }
 
 // Trend Following Strategy Types
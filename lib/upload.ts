@@ -0,0 +1,224 @@
+import Papa from 'papaparse';
+import { StooqDataPoint, TickerData } from './types';
+import { RawPriceRow, validateDataPoints } from './stooq';
+
+// Accepted column names (lowercase) for each field, in order of preference.
+// Covers Stooq (Polish and English), Yahoo Finance and generic date/close exports.
+const COLUMN_ALIASES: Record<keyof RawPriceRow, string[]> = {
+  date: ['date', 'data', 'datetime', 'time', 'day', 'timestamp'],
+  open: ['open', 'otwarcie'],
+  high: ['high', 'najwyzszy'],
+  low: ['low', 'najnizszy'],
+  close: ['close', 'zamkniecie', 'price', 'nav', 'value', 'kurs'],
+  volume: ['volume', 'wolumen', 'vol'],
+};
+
+// Yahoo's dividend- and split-adjusted close
+const ADJ_CLOSE_ALIASES = ['adj close', 'adj_close', 'adjclose'];
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+export class UploadParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadParseError';
+  }
+}
+
+function detectDelimiter(headerLine: string): string {
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of DELIMITERS) {
+    const count = headerLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Parse a number written with either a decimal point or a decimal comma,
+ * ignoring thousands separators ("1 234,56", "1.234,56", "1,234.56").
+ */
+function parseNumber(value: unknown, decimalComma: boolean): number {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return NaN;
+
+  let cleaned = value.replace(/[\s ']/g, '');
+  if (cleaned.length === 0) return NaN;
+
+  if (decimalComma) {
+    cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+  } else {
+    cleaned = cleaned.replace(/,/g, '');
+  }
+  return parseFloat(cleaned);
+}
+
+const SHORT_DATE_PATTERN = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/;
+
+/**
+ * Decide once for a whole date column whether NN/NN/YYYY dates are
+ * month-first: yes if some second part cannot be a month, no (day-first) if
+ * some first part cannot be, day-first when every date is ambiguous.
+ * Throws UploadParseError when the column mixes both orders.
+ */
+export function detectMonthFirst(values: unknown[]): boolean {
+  let monthFirst = false;
+  let dayFirst = false;
+  for (const value of values) {
+    const match = typeof value === 'string' ? value.trim().match(SHORT_DATE_PATTERN) : null;
+    if (!match) continue;
+    if (parseInt(match[2]) > 12) monthFirst = true;
+    if (parseInt(match[1]) > 12) dayFirst = true;
+  }
+  if (monthFirst && dayFirst) {
+    throw new UploadParseError('Date column mixes day-first and month-first dates');
+  }
+  return monthFirst;
+}
+
+/**
+ * Normalize common date layouts to YYYY-MM-DD. NN/NN/YYYY dates are read
+ * day-first unless `monthFirst` is set (see detectMonthFirst).
+ */
+export function normalizeDate(value: unknown, monthFirst: boolean = false): string | undefined {
+  if (typeof value === 'number') {
+    // Unix timestamp in seconds or milliseconds
+    const ms = value < 1e11 ? value * 1000 : value;
+    return new Date(ms).toISOString().slice(0, 10);
+  }
+  if (typeof value !== 'string') return undefined;
+
+  const trimmed = value.trim();
+  const pad = (n: string) => n.padStart(2, '0');
+
+  let match = trimmed.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (match) return `${match[1]}-${pad(match[2])}-${pad(match[3])}`;
+
+  match = trimmed.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+
+  match = trimmed.match(SHORT_DATE_PATTERN);
+  if (match) {
+    const [, first, second, year] = match;
+    return monthFirst
+      ? `${year}-${pad(first)}-${pad(second)}`
+      : `${year}-${pad(second)}-${pad(first)}`;
+  }
+
+  return undefined;
+}
+
+function findField(row: Record<string, unknown>, aliases: string[]): unknown {
+  const lowerKeys = new Map(Object.keys(row).map((k) => [k.trim().toLowerCase(), k]));
+  for (const alias of aliases) {
+    const key = lowerKeys.get(alias);
+    if (key !== undefined && row[key] !== '' && row[key] !== null) return row[key];
+  }
+  return undefined;
+}
+
+function toRawRows(rows: Record<string, unknown>[], decimalComma: boolean): RawPriceRow[] {
+  const field = (row: Record<string, unknown>, name: keyof RawPriceRow) =>
+    parseNumber(findField(row, COLUMN_ALIASES[name]), decimalComma);
+  const monthFirst = detectMonthFirst(rows.map((row) => findField(row, COLUMN_ALIASES.date)));
+
+  return rows.map((row) => {
+    const close = field(row, 'close');
+    const adjClose = parseNumber(findField(row, ADJ_CLOSE_ALIASES), decimalComma);
+
+    // Prefer the adjusted close and scale the unadjusted OHL prices to match it
+    const scale = !isNaN(adjClose) && close > 0 ? adjClose / close : 1;
+
+    return {
+      date: normalizeDate(findField(row, COLUMN_ALIASES.date), monthFirst),
+      open: field(row, 'open') * scale,
+      high: field(row, 'high') * scale,
+      low: field(row, 'low') * scale,
+      close: isNaN(adjClose) ? close : adjClose,
+      volume: field(row, 'volume'),
+    };
+  });
+}
+
+export function parseUploadedCSV(text: string): StooqDataPoint[] {
+  const headerLine = text.trim().split(/\r?\n/, 1)[0] || '';
+  const delimiter = detectDelimiter(headerLine);
+
+  const result = Papa.parse<Record<string, string>>(text.trim(), {
+    header: true,
+    skipEmptyLines: true,
+    delimiter,
+  });
+
+  const columns = (result.meta.fields || []).map((f) => f.trim().toLowerCase());
+  if (!COLUMN_ALIASES.date.some((a) => columns.includes(a))) {
+    throw new UploadParseError(`No date column found (columns: ${columns.join(', ')})`);
+  }
+  if (![...COLUMN_ALIASES.close, ...ADJ_CLOSE_ALIASES].some((a) => columns.includes(a))) {
+    throw new UploadParseError(`No close/price column found (columns: ${columns.join(', ')})`);
+  }
+
+  // A decimal comma is only possible when the comma is not the delimiter, and
+  // rules out numbers like "1,234.56" where a point follows the comma
+  const numericAliases = [
+    ...COLUMN_ALIASES.open, ...COLUMN_ALIASES.high, ...COLUMN_ALIASES.low,
+    ...COLUMN_ALIASES.close, ...COLUMN_ALIASES.volume, ...ADJ_CLOSE_ALIASES,
+  ];
+  const numericFields = (result.meta.fields || []).filter((f) => numericAliases.includes(f.trim().toLowerCase()));
+  const numbers = result.data.flatMap((row) => numericFields.map((f) => row[f] ?? ''));
+  const decimalComma = delimiter !== ','
+    && numbers.some((v) => /\d,\d/.test(v))
+    && !numbers.some((v) => /,\d*\./.test(v));
+
+  return validateDataPoints(toRawRows(result.data, decimalComma));
+}
+
+/**
+ * Parse JSON price data: an array of row objects, an object with a `data`
+ * array, or an array of [date, close] pairs.
+ */
+export function parseUploadedJSON(text: string): StooqDataPoint[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new UploadParseError('File is not valid JSON');
+  }
+
+  const rows = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { data?: unknown }).data;
+
+  if (!Array.isArray(rows)) {
+    throw new UploadParseError('JSON must be an array of rows or an object with a "data" array');
+  }
+
+  const objects = rows.map((row) =>
+    Array.isArray(row) ? { date: row[0], close: row[1] } : (row as Record<string, unknown>)
+  );
+
+  return validateDataPoints(toRawRows(objects, false));
+}
+
+/**
+ * Parse an uploaded CSV or JSON file into a TickerData under the given symbol.
+ */
+export function parseUploadedFile(content: string, fileName: string, symbol: string): TickerData {
+  const trimmed = content.trim();
+  const isJson = fileName.toLowerCase().endsWith('.json') || trimmed.startsWith('[') || trimmed.startsWith('{');
+
+  const data = isJson ? parseUploadedJSON(trimmed) : parseUploadedCSV(trimmed);
+
+  if (data.length < 2) {
+    throw new UploadParseError('File contains fewer than 2 valid rows with a date and a positive close');
+  }
+
+  return {
+    ticker: symbol.trim().toUpperCase(),
+    data,
+  };
+}
@@ -0,0 +1,178 @@
+import {
+  BenchmarkReturnFrequency,
+  BENCHMARK_RETURN_FREQUENCIES,
+  CpiSeriesKind,
+  DataQualityMode,
+  DateRangePreset,
+  DATE_RANGE_PRESETS,
+  PriceChartSettings,
+  StooqInterval,
+  STOOQ_INTERVALS,
+} from './types';
+import { BASE_CURRENCIES } from './currency';
+
+// Bump when the meaning of a parameter changes; decodeViewState keeps reading older versions
+export const URL_STATE_VERSION = 1;
+
+// Analysis view that can be shared as a URL. Uploaded series are not included.
+export interface ViewState {
+  tickers: string[];
+  startDate: string;
+  endDate: string;
+  datePreset: DateRangePreset | null; // when set, takes precedence over startDate/endDate
+  focusTicker: string;
+  interval: StooqInterval;
+  periodsPerYear: number | null;
+  minAcceptableReturn: number; // MAR for the risk-adjusted statistics
+  benchmark: string;           // loaded ticker the others are compared with, '' = none
+  benchmarkFrequency: BenchmarkReturnFrequency;
+  baseCurrency: string;
+  dataQualityMode: DataQualityMode;
+  cpi: { ticker: string; kind: CpiSeriesKind } | null; // real terms deflator
+  priceChart: PriceChartSettings;
+  rollingYears: number;
+  riskFreeRate: number;
+  commission: number;
+}
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+  tickers: [],
+  startDate: '',
+  endDate: '',
+  datePreset: null,
+  focusTicker: '',
+  interval: 'd',
+  periodsPerYear: null,
+  minAcceptableReturn: 0,
+  benchmark: '',
+  benchmarkFrequency: 'daily',
+  baseCurrency: '',
+  dataQualityMode: 'flag',
+  cpi: null,
+  priceChart: { show50SMA: false, show200SMA: false, distanceSMAPeriod: 200 },
+  rollingYears: 3,
+  riskFreeRate: 0.02,
+  commission: 0.002,
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATA_QUALITY_MODES: DataQualityMode[] = ['flag', 'exclude', 'patch'];
+const CPI_KINDS: CpiSeriesKind[] = ['index', 'mom'];
+
+/**
+ * Encode a view as URL query parameters. Values equal to the defaults are omitted.
+ *
+ * v1 parameters: t (tickers, comma-separated), from, to, range (date preset), focus, i (interval),
+ * ppy (periods per year), mar (minimum acceptable return), bm and bmf (benchmark ticker and return
+ * frequency), cur (base currency), dq (data quality mode),
+ * cpi and cpik (deflator ticker and kind), sma (shown SMA overlays, e.g. "50,200"),
+ * dsma (distance chart SMA), rw (rolling years), rf (risk-free rate), fee (commission).
+ */
+export function encodeViewState(state: ViewState): string {
+  const params = new URLSearchParams();
+  const d = DEFAULT_VIEW_STATE;
+
+  params.set('v', String(URL_STATE_VERSION));
+  params.set('t', state.tickers.join(','));
+  if (state.datePreset) {
+    params.set('range', state.datePreset);
+  } else {
+    if (state.startDate) params.set('from', state.startDate);
+    if (state.endDate) params.set('to', state.endDate);
+  }
+  if (state.focusTicker && state.focusTicker !== state.tickers[0]) params.set('focus', state.focusTicker);
+  if (state.interval !== d.interval) params.set('i', state.interval);
+  if (state.periodsPerYear !== null) params.set('ppy', String(state.periodsPerYear));
+  if (state.minAcceptableReturn !== d.minAcceptableReturn) params.set('mar', String(state.minAcceptableReturn));
+  if (state.benchmark) {
+    params.set('bm', state.benchmark);
+    if (state.benchmarkFrequency !== d.benchmarkFrequency) params.set('bmf', state.benchmarkFrequency);
+  }
+  if (state.baseCurrency) params.set('cur', state.baseCurrency);
+  if (state.dataQualityMode !== d.dataQualityMode) params.set('dq', state.dataQualityMode);
+  if (state.cpi) {
+    params.set('cpi', state.cpi.ticker);
+    params.set('cpik', state.cpi.kind);
+  }
+
+  const smas = [state.priceChart.show50SMA && '50', state.priceChart.show200SMA && '200'].filter(Boolean);
+  if (smas.length > 0) params.set('sma', smas.join(','));
+  if (state.priceChart.distanceSMAPeriod !== d.priceChart.distanceSMAPeriod) {
+    params.set('dsma', String(state.priceChart.distanceSMAPeriod));
+  }
+  if (state.rollingYears !== d.rollingYears) params.set('rw', String(state.rollingYears));
+  if (state.riskFreeRate !== d.riskFreeRate) params.set('rf', String(state.riskFreeRate));
+  if (state.commission !== d.commission) params.set('fee', String(state.commission));
+
+  return params.toString();
+}
+
+function parseNumberInRange(value: string | null, min: number, max: number): number | undefined {
+  if (value === null) return undefined;
+  const num = Number(value);
+  return isFinite(num) && num >= min && num <= max ? num : undefined;
+}
+
+function decodeV1(params: URLSearchParams): ViewState {
+  const d = DEFAULT_VIEW_STATE;
+  const tickers = (params.get('t') || '').split(',').map((t) => t.trim()).filter((t) => t.length > 0);
+  const from = params.get('from') || '';
+  const to = params.get('to') || '';
+  const datePreset = params.get('range') as DateRangePreset | null;
+  const interval = params.get('i') as StooqInterval | null;
+  const dataQualityMode = params.get('dq') as DataQualityMode | null;
+  const cpiTicker = params.get('cpi');
+  const cpiKind = params.get('cpik') as CpiSeriesKind | null;
+  const benchmarkFrequency = params.get('bmf') as BenchmarkReturnFrequency | null;
+  const smas = (params.get('sma') || '').split(',');
+  const currency = (params.get('cur') || '').toUpperCase();
+  const ppy = parseNumberInRange(params.get('ppy'), 1, 366);
+  const rollingYears = parseNumberInRange(params.get('rw'), 1, 10);
+
+  return {
+    tickers,
+    startDate: DATE_PATTERN.test(from) ? from : '',
+    endDate: DATE_PATTERN.test(to) ? to : '',
+    datePreset: datePreset && DATE_RANGE_PRESETS.includes(datePreset) ? datePreset : null,
+    focusTicker: params.get('focus') || tickers[0] || '',
+    interval: interval && STOOQ_INTERVALS.includes(interval) ? interval : d.interval,
+    periodsPerYear: ppy !== undefined ? Math.round(ppy) : null,
+    minAcceptableReturn: parseNumberInRange(params.get('mar'), -0.2, 0.2) ?? d.minAcceptableReturn,
+    benchmark: params.get('bm') || d.benchmark,
+    benchmarkFrequency: benchmarkFrequency && BENCHMARK_RETURN_FREQUENCIES.includes(benchmarkFrequency)
+      ? benchmarkFrequency
+      : d.benchmarkFrequency,
+    baseCurrency: BASE_CURRENCIES.includes(currency) ? currency : d.baseCurrency,
+    dataQualityMode: dataQualityMode && DATA_QUALITY_MODES.includes(dataQualityMode)
+      ? dataQualityMode
+      : d.dataQualityMode,
+    cpi: cpiTicker ? { ticker: cpiTicker, kind: cpiKind && CPI_KINDS.includes(cpiKind) ? cpiKind : 'mom' } : null,
+    priceChart: {
+      show50SMA: smas.includes('50'),
+      show200SMA: smas.includes('200'),
+      distanceSMAPeriod: params.get('dsma') === '50' ? 50 : 200,
+    },
+    rollingYears: rollingYears !== undefined ? Math.round(rollingYears) : d.rollingYears,
+    riskFreeRate: parseNumberInRange(params.get('rf'), 0, 0.2) ?? d.riskFreeRate,
+    commission: parseNumberInRange(params.get('fee'), 0, 0.05) ?? d.commission,
+  };
+}
+
+/**
+ * Decode a view from a query string. Returns null when it holds no tickers or
+ * was written by an unknown (newer) version. Invalid values fall back to defaults.
+ */
+export function decodeViewState(search: string): ViewState | null {
+  const params = new URLSearchParams(search);
+  if (!params.get('t')) return null;
+
+  // Hand-written URLs may omit the version
+  const version = Number(params.get('v') || '1');
+  if (version !== 1) {
+    console.warn(`Unsupported view URL version: ${params.get('v')}`);
+    return null;
+  }
+
+  const state = decodeV1(params);
+  return state.tickers.length > 0 ? state : null;
+}
@@ -0,0 +1,115 @@
+import { decodeViewState, encodeViewState, ViewState } from './urlState';
+
+// Named analysis views saved in the browser (localStorage) and shared as JSON files.
+// Views are stored as versioned URL query strings, so decodeViewState validates
+// and migrates them exactly like shared links.
+
+const STORAGE_KEY = 'stooq-analyzer:workspaces';
+const FILE_FORMAT = 'stooq-analyzer-workspaces';
+const FILE_VERSION = 1;
+
+export interface Workspace {
+  name: string;
+  view: ViewState;
+  savedAt: string; // ISO timestamp
+}
+
+interface StoredWorkspace {
+  name: string;
+  query: string;
+  savedAt: string;
+}
+
+export class WorkspaceImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkspaceImportError';
+  }
+}
+
+function toStored(workspace: Workspace): StoredWorkspace {
+  return { name: workspace.name, query: encodeViewState(workspace.view), savedAt: workspace.savedAt };
+}
+
+function fromStored(value: unknown): Workspace | null {
+  if (typeof value !== 'object' || value === null) return null;
+
+  const { name, query, savedAt } = value as Partial<StoredWorkspace>;
+  if (typeof name !== 'string' || name.trim().length === 0 || typeof query !== 'string') return null;
+
+  const view = decodeViewState(query);
+  if (!view) return null;
+  return { name: name.trim(), view, savedAt: typeof savedAt === 'string' ? savedAt : '' };
+}
+
+function sortByName(workspaces: Workspace[]): Workspace[] {
+  return [...workspaces].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Workspaces saved in this browser. Entries that no longer decode are skipped.
+ */
+export function loadWorkspaces(): Workspace[] {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '[]');
+    if (!Array.isArray(stored)) return [];
+    return sortByName(stored.map(fromStored).filter((w): w is Workspace => w !== null));
+  } catch (err) {
+    console.error('Could not read saved workspaces:', err);
+    return [];
+  }
+}
+
+export function saveWorkspaces(workspaces: Workspace[]): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(workspaces.map(toStored)));
+  } catch (err) {
+    // Storage full or disabled (e.g. private browsing)
+    console.error('Could not save workspaces:', err);
+  }
+}
+
+/**
+ * Add workspaces, replacing existing ones with the same name (case-insensitive).
+ */
+export function mergeWorkspaces(existing: Workspace[], incoming: Workspace[]): Workspace[] {
+  const byName = new Map<string, Workspace>();
+  for (const workspace of [...existing, ...incoming]) {
+    byName.set(workspace.name.toLowerCase(), workspace);
+  }
+  return sortByName(Array.from(byName.values()));
+}
+
+export function exportWorkspaces(workspaces: Workspace[]): string {
+  return JSON.stringify(
+    { format: FILE_FORMAT, version: FILE_VERSION, workspaces: workspaces.map(toStored) },
+    null,
+    2
+  );
+}
+
+/**
+ * Parse an exported workspace file. Throws WorkspaceImportError when the file is
+ * not a workspace export or holds no valid workspace.
+ */
+export function parseWorkspaceFile(content: string): Workspace[] {
+  let file: { format?: unknown; version?: unknown; workspaces?: unknown };
+  try {
+    file = JSON.parse(content);
+  } catch {
+    throw new WorkspaceImportError('File is not valid JSON');
+  }
+
+  if (typeof file !== 'object' || file === null || file.format !== FILE_FORMAT || !Array.isArray(file.workspaces)) {
+    throw new WorkspaceImportError('File is not a Stooq Analyzer workspace export');
+  }
+  if (file.version !== FILE_VERSION) {
+    throw new WorkspaceImportError(`Unsupported workspace file version: ${String(file.version)}`);
+  }
+
+  const workspaces = file.workspaces.map(fromStored).filter((w): w is Workspace => w !== null);
+  if (workspaces.length === 0) {
+    throw new WorkspaceImportError('File contains no valid workspaces');
+  }
+  return workspaces;
+}
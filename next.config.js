@@ -1,6 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  eslint: {
+    dirs: ['app', 'components', 'lib', 'cli'],
+  },
 };
 
 module.exports = nextConfig;